@@ -0,0 +1,32 @@
+import { expect, test } from 'bun:test'
+import { minifyHtml } from './index.tsx'
+
+test('minifyHtml collapses whitespace in text and removes comments', () => {
+	expect(minifyHtml('  <p>\n\tHello   <b>world</b>  <!-- note -->!\n</p>  ')).toBe('<p> Hello <b>world</b> ! </p>')
+})
+
+test('minifyHtml keeps conditional comments', () => {
+	expect(minifyHtml('<!--[if IE]><p>Old</p><![endif]--><p>New</p>')).toBe('<!--[if IE]><p>Old</p><![endif]--><p>New</p>')
+})
+
+test('minifyHtml minifies attributes', () => {
+	expect(minifyHtml('<input  type="checkbox"\n checked="" class="a b" id=\'x\' />')).toBe('<input type=checkbox checked class="a b" id=x />')
+})
+
+test('minifyHtml keeps whitespace in attribute values', () => {
+	expect(minifyHtml('<input value="a   b" title="line 1\nline 2">')).toBe('<input value="a   b" title="line 1\nline 2">')
+})
+
+test('minifyHtml does not end tags at > in quoted values', () => {
+	expect(minifyHtml('<div data-x="a>b" class="c">text</div>')).toBe('<div data-x="a>b" class=c>text</div>')
+	expect(minifyHtml('<div data-x=\'a>b\'>text</div>')).toBe('<div data-x=\'a>b\'>text</div>')
+})
+
+test('minifyHtml leaves preserved elements untouched', () => {
+	const html = '<pre>  a\n\n  b  </pre><script>if (a < b &&  c > d) {}</script><textarea>  x  </textarea>'
+	expect(minifyHtml(html)).toBe(html)
+})
+
+test('minifyHtml keeps the doctype and closing tags intact', () => {
+	expect(minifyHtml('<!DOCTYPE   html>\n<html><body></body\n></html>')).toBe('<!DOCTYPE html> <html><body></body></html>')
+})
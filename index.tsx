@@ -7,28 +7,78 @@
  */
 
 import { renderToReadableStream } from 'react-dom/server'
-import { JSX } from 'react'
-import { join as joinPaths } from 'path'
-import { mkdir, readdir, rm, stat } from 'fs/promises'
-import { Stats } from 'fs'
+import { JSX, createContext, useContext } from 'react'
+import { join as joinPaths, resolve as resolvePath, sep as pathSeparator } from 'path'
+import { lstat, mkdir, readdir, readlink, realpath, rename, rm, rmdir, stat, symlink } from 'fs/promises'
+import { FSWatcher, Stats, watch } from 'fs'
 import { exists } from 'fs/promises'
-import { basename, dirname } from 'path/posix'
+import { basename, dirname, extname } from 'path/posix'
+import { createHash } from 'crypto'
+import { brotliCompress, constants as zlibConstants, gzip } from 'zlib'
+import { promisify } from 'util'
+import { marked } from 'marked'
+import { parse as parseYaml } from 'yaml'
+import sharp from 'sharp'
 
-const streamDecoder = new TextDecoder('utf-8')
+declare global {
+	namespace NodeJS {
+		interface Require {
+			/**
+			 * The modules that have been loaded, keyed by their absolute path.
+			 * Deleting a module from it makes the next import load it again.
+			 */
+			cache: Record<string, NodeModule>
+		}
+	}
+}
 
 /**
- * Renders a JSX element to a UTF-8 HTML string
- * @param element The element to render
- * @returns The resulting UTF-8 HTML string
+ * Options for {@link renderToString}
  */
-export async function renderToString(element: JSX.Element): Promise<string> {
-	let res = ''
+export type RenderOptions = {
+	/**
+	 * Whether to collect the entries declared with {@link useHead} and inject them into the `<head>` (defaults to true).
+	 * Since any component can declare entries, this waits for the whole document to render before any of it is returned.
+	 */
+	head?: boolean
 
-	for await (const part of await renderToReadableStream(element)) {
-		res += streamDecoder.decode(part)
+	/**
+	 * The canonical URL of the page being rendered, which {@link Seo} links to by default (defaults to null)
+	 */
+	canonicalUrl?: string | null
+}
+
+/**
+ * Renders a JSX element to a stream of UTF-8 HTML, injecting the entries declared with {@link useHead} into its `<head>`
+ * @param element The element to render
+ * @param options The {@link RenderOptions}
+ * @returns The resulting stream
+ */
+async function renderToHtmlStream(element: JSX.Element, options: RenderOptions = {}): Promise<ReadableStream<Uint8Array>> {
+	if (options.head === false) {
+		return await renderToReadableStream(element)
 	}
 
-	return res
+	const head: HeadState = { entries: new Map(), canonicalUrl: options.canonicalUrl ?? null }
+	const stream = await renderToReadableStream(<HeadContext.Provider value={head}>{element}</HeadContext.Provider>)
+
+	// Any component in the tree can declare entries, so they are only known once everything has rendered
+	await stream.allReady
+
+	return head.entries.size === 0 ? stream : injectHead(stream, head)
+}
+
+/**
+ * Renders a JSX element to a UTF-8 HTML string.
+ * Entries declared with {@link useHead} (or {@link Seo}) are injected into the document's `<head>`.
+ *
+ * @param element The element to render
+ * @param options The {@link RenderOptions}
+ * @returns The resulting UTF-8 HTML string
+ */
+export async function renderToString(element: JSX.Element, options: RenderOptions = {}): Promise<string> {
+	// The stream is decoded as a whole, since multi-byte characters can be split across chunks
+	return await new Response(await renderToHtmlStream(element, options)).text()
 }
 
 /**
@@ -86,7 +136,7 @@ export async function copyRecursive(source: string, target: string): Promise<voi
 			// Check if path is a directory, adding to paths list if it is, otherwise copying the file
 			const targetPath = joinPaths(target, childPath)
 			if ((await stat(realPath)).isDirectory()) {
-				await mkdir(targetPath)
+				await mkdir(targetPath, { recursive: true })
 				paths.push(childPath)
 			} else {
 				await Bun.write(targetPath, Bun.file(realPath))
@@ -95,45 +145,379 @@ export async function copyRecursive(source: string, target: string): Promise<voi
 	}
 }
 
+/**
+ * Lists all files in a directory recursively.
+ * Directories are crawled but not included in the result.
+ * @param dir The directory to list
+ * @returns The paths of all files in the directory, relative to it
+ */
+export async function listFilesRecursive(dir: string): Promise<string[]> {
+	const res: string[] = []
+	const paths = ['']
+
+	// Loop util there are no more paths to crawl
+	while (paths.length > 0) {
+		const path = paths.shift() as string
+
+		for (const file of await readdir(joinPaths(dir, path))) {
+			const childPath = joinPaths(path, file)
+
+			if ((await stat(joinPaths(dir, childPath))).isDirectory()) {
+				paths.push(childPath)
+			} else {
+				res.push(childPath)
+			}
+		}
+	}
+
+	return res
+}
+
+/**
+ * Calculates the SHA-256 hash of a file's contents without reading the entire file into memory
+ * @param path The file's path
+ * @returns The hex-encoded hash
+ */
+export async function hashFile(path: string): Promise<string> {
+	const hash = createHash('sha256')
+
+	for await (const chunk of Bun.file(path).stream()) {
+		hash.update(chunk)
+	}
+
+	return hash.digest('hex')
+}
+
+/**
+ * Inserts a content hash into a path's filename, before its extension.
+ * For example, `/assets/app.css` becomes `/assets/app.3f9a1c2b.css`.
+ * @param path The path
+ * @param hash The hex-encoded content hash, of which the first 8 characters are used
+ * @returns The fingerprinted path
+ */
+export function fingerprintPath(path: string, hash: string): string {
+	const ext = extname(path)
+	return path.substring(0, path.length - ext.length) + '.' + hash.substring(0, 8) + ext
+}
+
+/**
+ * Percent-encodes each segment of a path, leaving the slashes intact
+ * @param path The path to encode
+ * @returns The encoded path
+ */
+export function encodePath(path: string): string {
+	return path.split('/').map(encodeURIComponent).join('/')
+}
+
+/**
+ * Percent-decodes a request path segment by segment, rejecting paths that could resolve outside of a directory once decoded
+ * @param path The percent-encoded path
+ * @returns The decoded path, or null if it is malformed or a segment contains an encoded slash, a backslash, a null byte or is `..`
+ */
+function decodeRequestPath(path: string): string | null {
+	const segments: string[] = []
+	for (const segment of path.split('/')) {
+		let decoded: string
+		try {
+			decoded = decodeURIComponent(segment)
+		} catch (err) {
+			return null
+		}
+
+		if (decoded === '..' || /[\/\\\0]/.test(decoded)) {
+			return null
+		}
+		segments.push(decoded)
+	}
+
+	return segments.join('/')
+}
+
+/**
+ * Returns whether a request's conditional headers show that the client's cached copy of a file is still fresh.
+ * `If-None-Match` takes precedence over `If-Modified-Since`, as required by HTTP.
+ *
+ * @param req The request
+ * @param etag The file's current `ETag`
+ * @param lastModified The file's modification time
+ * @returns Whether the server can respond with `304 Not Modified`
+ */
+function isNotModified(req: Request, etag: string, lastModified: Date): boolean {
+	const ifNoneMatch = req.headers.get('If-None-Match')
+	if (ifNoneMatch !== null) {
+		// Weak comparison is used, so the `W/` prefix is ignored, as is the suffix added to the tags of compressed responses
+		const normalize = (tag: string) => tag.trim().replace(/^W\//, '').replace(/-(gzip|br)"$/, '"')
+		return ifNoneMatch.trim() === '*' || ifNoneMatch.split(',').some(tag => normalize(tag) === normalize(etag))
+	}
+
+	const ifModifiedSince = req.headers.get('If-Modified-Since')
+	if (ifModifiedSince !== null) {
+		const since = Date.parse(ifModifiedSince)
+
+		// HTTP dates only have a precision of seconds
+		return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since
+	}
+
+	return false
+}
+
+/**
+ * Parses a `Range` header with a single byte range, such as `bytes=0-1023`, `bytes=1024-` or `bytes=-512`
+ * @param header The `Range` header
+ * @param size The size of the file in bytes
+ * @returns The inclusive start and end of the range, `unsatisfiable` if the range is outside of the file, or null if the header is invalid or has multiple ranges and should be ignored
+ */
+function parseRangeHeader(header: string, size: number): { start: number, end: number } | 'unsatisfiable' | null {
+	const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim())
+	if (match === null || (match[1] === '' && match[2] === '')) {
+		return null
+	}
+
+	let start: number
+	let end: number
+	if (match[1] === '') {
+		// A suffix range selects the last bytes of the file
+		start = Math.max(0, size - parseInt(match[2], 10))
+		end = size - 1
+	} else {
+		start = parseInt(match[1], 10)
+		end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1)
+	}
+
+	if (start >= size || start > end) {
+		return 'unsatisfiable'
+	}
+	return { start, end }
+}
+
+/**
+ * Returns the MIME type for a path based on its extension.
+ * Paths without an extension are considered to be HTML, since routes such as `/about` are normally pages.
+ * @param path The path
+ * @returns The MIME type
+ */
+export function getMimeType(path: string): string {
+	if (extname(path) === '') {
+		return 'text/html;charset=utf-8'
+	}
+
+	// Bun determines the type from the extension without touching the file
+	return Bun.file(path).type
+}
+
+/**
+ * A compression encoding, by its `Content-Encoding` name
+ */
+export type CompressionEncoding = 'gzip' | 'br'
+
+/**
+ * Options for writing pre-compressed variants of output files
+ */
+export type CompressionOptions = {
+	/**
+	 * The encodings to write variants for (defaults to `['gzip', 'br']`).
+	 * Variants are written next to the original file, with a `.gz` or `.br` extension appended.
+	 */
+	encodings?: CompressionEncoding[]
+
+	/**
+	 * The minimum size in bytes of files to compress (defaults to 1024)
+	 */
+	threshold?: number
+}
+
+/**
+ * The file extensions of pre-compressed variants, by encoding
+ */
+const compressionExtensions: Record<CompressionEncoding, string> = {
+	gzip: '.gz',
+	br: '.br',
+}
+
+/**
+ * The default minimum size in bytes of responses and files to compress
+ */
+const defaultCompressionThreshold = 1024
+
+const gzipAsync = promisify(gzip)
+const brotliCompressAsync = promisify(brotliCompress)
+
+/**
+ * Returns whether content of a MIME type is text that benefits from compression (HTML, CSS, JavaScript, SVG, JSON and XML)
+ * @param contentType The MIME type, optionally with parameters
+ * @returns Whether the content should be compressed
+ */
+export function isCompressibleType(contentType: string): boolean {
+	const type = contentType.split(';')[0].trim().toLowerCase()
+	return [
+		'text/html',
+		'text/css',
+		'text/javascript',
+		'application/javascript',
+		'application/json',
+		'application/xml',
+		'text/xml',
+		'image/svg+xml',
+	].includes(type) || type.endsWith('+xml') || type.endsWith('+json')
+}
+
+/**
+ * Compresses data with the specified encoding, at the highest compression level since outputs are compressed ahead of time
+ * @param data The data to compress
+ * @param encoding The encoding
+ * @returns The compressed data
+ */
+export async function compressData(data: Uint8Array, encoding: CompressionEncoding): Promise<Uint8Array> {
+	if (encoding === 'gzip') {
+		return new Uint8Array(await gzipAsync(data, { level: 9 }))
+	} else {
+		return new Uint8Array(await brotliCompressAsync(data, {
+			params: {
+				[zlibConstants.BROTLI_PARAM_QUALITY]: zlibConstants.BROTLI_MAX_QUALITY,
+				[zlibConstants.BROTLI_PARAM_SIZE_HINT]: data.length,
+			},
+		}))
+	}
+}
+
+/**
+ * Chooses the encoding to compress a response with based on an `Accept-Encoding` header, preferring brotli
+ * @param header The `Accept-Encoding` header
+ * @returns The encoding, or null if the client accepts neither brotli nor gzip
+ */
+function negotiateEncoding(header: string): CompressionEncoding | null {
+	const accepted = new Set<string>()
+	for (const part of header.split(',')) {
+		const [name, ...params] = part.trim().toLowerCase().split(';')
+		const q = params.find(param => param.trim().startsWith('q='))
+		if (q === undefined || parseFloat(q.trim().substring(2)) > 0) {
+			accepted.add(name.trim())
+		}
+	}
+
+	if (accepted.has('br')) {
+		return 'br'
+	} else if (accepted.has('gzip')) {
+		return 'gzip'
+	} else {
+		return null
+	}
+}
+
+/**
+ * Runs an async function for each item in an array, with at most the specified number of calls running at once
+ * @param items The items to process
+ * @param limit The maximum number of concurrent calls
+ * @param fn The function to call for each item
+ */
+async function runConcurrently<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+	if (!(limit >= 1)) {
+		throw new Error(`Invalid concurrency limit ${limit}, must be at least 1`)
+	}
+
+	let next = 0
+	const workers: Promise<void>[] = []
+	for (let i = 0; i < Math.min(limit, items.length); i++) {
+		workers.push((async () => {
+			while (next < items.length) {
+				await fn(items[next++])
+			}
+		})())
+	}
+
+	await Promise.all(workers)
+}
+
+/**
+ * Options for {@link ParsedArgs.parse}
+ */
+export type ArgParseOptions = {
+	/**
+	 * Short option names mapped to the long option names they stand for, such as `{ p: 'port' }` for `-p`
+	 */
+	aliases?: Record<string, string>
+
+	/**
+	 * The long names of options that take a value.
+	 * Their value can also be passed as the next argument, such as `--port 3000` or `-p 3000`.
+	 */
+	valueOptions?: string[]
+}
+
+/**
+ * Returns whether a command line argument is an option, rather than a normal argument.
+ * Negative numbers and a lone `-` are normal arguments.
+ * @param arg The argument
+ * @returns Whether the argument is an option
+ */
+function isOptionArg(arg: string): boolean {
+	return arg.startsWith('--') || (arg.startsWith('-') && arg.length > 1 && !/^-[0-9.]/.test(arg))
+}
+
 /**
  * Class that represents parsed command line arguments.
- * It supports normal arguments and `--` option arguments.
- * Options are parsed into a map, where the key is the name, and the value is either the value after `=`, or null.
+ * It supports normal arguments, `--` option arguments and single-character `-` option arguments.
+ * Options are parsed into a map, where the key is the name, and the value is either the value after `=` (or the next argument, for options that take a value), or null.
  */
 export class ParsedArgs {
 	/**
 	 * Parses a string array into a {@link ParsedArgs} object.
 	 * If sliceFirstTwo is true, then the first two arguments will be sliced off when processing (should be used when passing raw `process.argv`, defaults to true).
+	 *
+	 * Short options can be grouped, such as `-abc`, in which case only the last one can have a value.
+	 * Arguments after a lone `--` are always treated as normal arguments.
+	 *
 	 * @param rawArgs The raw arguments to parse
 	 * @param sliceFirstTwo Whether to slice the first two arguments (defaults to true)
+	 * @param parseOptions Short option aliases and options that take a value
 	 * @returns The resulting {@link ParsedArgs} object
 	 */
-	public static parse(rawArgs: string[], sliceFirstTwo = true): ParsedArgs {
+	public static parse(rawArgs: string[], sliceFirstTwo = true, parseOptions: ArgParseOptions = {}): ParsedArgs {
 		const args = sliceFirstTwo ? rawArgs.slice(2) : rawArgs
+		const aliases = parseOptions.aliases ?? {}
+		const valueOptions = parseOptions.valueOptions ?? []
 
 		const argsRes: string[] = []
-		const optionsRes = new Map<string, string | null>()
+		const valuesRes = new Map<string, (string | null)[]>()
 
-		for (const arg of args) {
-			if (arg.startsWith('--')) {
-				const eqIdx = arg.indexOf('=')
-				let key: string
-				let value: string | null
-				if (eqIdx === -1) {
-					key = arg.substring(2)
-					value = null
-				} else {
-					key = arg.substring(2, eqIdx)
-					value = arg.substring(eqIdx + 1)
-				}
+		for (let i = 0; i < args.length; i++) {
+			const arg = args[i]
+			if (arg === '--') {
+				argsRes.push(...args.slice(i + 1))
+				break
+			}
+			if (!isOptionArg(arg)) {
+				argsRes.push(arg)
+				continue
+			}
 
-				optionsRes.set(key, value)
+			const eqIdx = arg.indexOf('=')
+			let value = eqIdx === -1 ? null : arg.substring(eqIdx + 1)
+			let keys: string[]
+			if (arg.startsWith('--')) {
+				keys = [eqIdx === -1 ? arg.substring(2) : arg.substring(2, eqIdx)]
 			} else {
-				argsRes.push(arg)
+				keys = [...(eqIdx === -1 ? arg.substring(1) : arg.substring(1, eqIdx))].map(key => aliases[key] ?? key)
+			}
+
+			const lastKey = keys[keys.length - 1]
+			if (value === null && valueOptions.includes(lastKey) && i + 1 < args.length && !isOptionArg(args[i + 1])) {
+				value = args[++i]
+			}
+
+			for (const key of keys) {
+				const values = valuesRes.get(key) ?? []
+				values.push(key === lastKey ? value : null)
+				valuesRes.set(key, values)
 			}
 		}
 
-		return new ParsedArgs(argsRes, optionsRes)
+		const optionsRes = new Map<string, string | null>()
+		for (const [key, values] of valuesRes) {
+			optionsRes.set(key, values[values.length - 1])
+		}
+
+		return new ParsedArgs(argsRes, optionsRes, valuesRes, args)
 	}
 
 	/**
@@ -148,11 +532,22 @@ export class ParsedArgs {
 	 */
 	public readonly options: Map<string, string | null>
 
+	/**
+	 * All values of each option, in the order they were specified.
+	 * Unlike {@link options}, which only keeps the last value, this includes every value of options that were specified more than once.
+	 */
+	public readonly optionValues: Map<string, (string | null)[]>
+
 	/**
 	 * The normal, non-option arguments
 	 */
 	public readonly args: string[]
 
+	/**
+	 * The raw arguments the object was parsed from, which can be parsed again with different {@link ArgParseOptions}
+	 */
+	public readonly raw: string[]
+
 	/**
 	 * Returns the value of an option.
 	 * If it has no value, it will return `null`.
@@ -175,6 +570,18 @@ export class ParsedArgs {
 		return this.getOption(arg) ?? defaultVal
 	}
 
+	/**
+	 * Returns all values of an option, in the order they were specified.
+	 * Values of options specified without a value are null.
+	 * If the option is not specified at all, it will return an empty array.
+	 *
+	 * @param arg The name of the option
+	 * @returns The values of the option
+	 */
+	public getOptionValues(arg: string): (string | null)[] {
+		return this.optionValues.get(arg) ?? []
+	}
+
 	/**
 	 * Returns the integer value of an option.
 	 * If it has no value or could not be parsed, it will return `null`.
@@ -188,25 +595,21 @@ export class ParsedArgs {
 		const val = this.options.get(arg)
 		if (val == null) {
 			return val
-		} else {
-			return parseInt(val, radix)
 		}
+
+		const int = parseInt(val, radix)
+		return Number.isNaN(int) ? null : int
 	}
 
 	/**
-	 * Same as {@link getOptionInt}, except it returns a default value if the option is not specified or has no value
+	 * Same as {@link getOptionInt}, except it returns a default value if the option is not specified, has no value or could not be parsed
 	 * @param arg The name of the option
-	 * @param defaultValue The default value to return if the option is not specified or has no value
+	 * @param defaultValue The default value to return if the option is not specified, has no value or could not be parsed
 	 * @param radix The radix to use when parsing (defaults to 10)
 	 * @returns The integer value of the option
 	 */
 	public getOptionIntOr<T>(arg: string, defaultValue: T, radix = 10): number | T {
-		const val = this.options.get(arg)
-		if (val == null) {
-			return defaultValue as T
-		} else {
-			return parseInt(val, radix)
-		}
+		return this.getOptionInt(arg, radix) ?? defaultValue
 	}
 
 	/**
@@ -221,24 +624,20 @@ export class ParsedArgs {
 		const val = this.options.get(arg)
 		if (val == null) {
 			return val
-		} else {
-			return parseFloat(val)
 		}
+
+		const float = parseFloat(val)
+		return Number.isNaN(float) ? null : float
 	}
 
 	/**
-	 * Same as {@link getOptionFloat}, except it returns a default value if the option is not specified or has no value
+	 * Same as {@link getOptionFloat}, except it returns a default value if the option is not specified, has no value or could not be parsed
 	 * @param arg The name of the option
-	 * @param defaultValue The default value to return if the option is not specified or has no value
+	 * @param defaultValue The default value to return if the option is not specified, has no value or could not be parsed
 	 * @returns The float value of the option
 	 */
-	public getOptionFloatOr<T>(arg: string, defaultValue: T): number | null | T {
-		const val = this.options.get(arg)
-		if (val == null) {
-			return defaultValue as T
-		} else {
-			return parseFloat(val)
-		}
+	public getOptionFloatOr<T>(arg: string, defaultValue: T): number | T {
+		return this.getOptionFloat(arg) ?? defaultValue
 	}
 
 	/**
@@ -282,286 +681,5611 @@ export class ParsedArgs {
 		}
 	}
 
-	constructor(args: string[], options: Map<string, string | null>) {
+	constructor(
+		args: string[],
+		options: Map<string, string | null>,
+		optionValues?: Map<string, (string | null)[]>,
+		raw?: string[],
+	) {
 		this.options = options
+		this.optionValues = optionValues ?? new Map([...options].map(([key, value]) => [key, [value]]))
 		this.args = args
+		this.raw = raw ?? [
+			...args,
+			...[...this.optionValues].flatMap(([key, values]) => values.map(value => value === null ? `--${key}` : `--${key}=${value}`)),
+		]
 	}
 }
 
 /**
- * Returns whether the given object is in the shape of JSX.Element
- * @param obj The object to check
- * @returns Whether the given object is in the shape of JSX.Element
- */
-export function isObjectJsxElement(obj: any): obj is JSX.Element {
-	return typeof obj === 'object' &&
-		'type' in obj as any &&
-		'props' in obj as any &&
-		'key' in obj
-}
-
-/**
- * Creates a {@link Renderer} for a module that returns a {@link Renderer} or {@link RenderResult} value.
- * The {@link Renderer} that this function returns will dynamically import the module when it is called.
- * This function will ensure that the module is reloaded with Bun's hot reload feature.
- *
- * @param modulePath The module's path, as you would specify it for {@link import()} or {@link require()}
- * @returns The resulting {@link Renderer}
+ * The type of a CLI option's value.
+ * Boolean options do not take a value, but accept values such as `--watch=false`.
  */
-export function moduleRenderer(modulePath: string): Renderer {
-	return async function (): Promise<RenderResult> {
-		const def = (await import(modulePath)).default
-		if (typeof def === 'function')
-			return await def()
-		else
-			return def.default
-	}
-}
+export type CliOptionType = 'string' | 'int' | 'float' | 'boolean'
 
 /**
- * Valid data to be used as a body when constructing a {@link Response} object
+ * A parsed CLI option value.
+ * Options that can be specified more than once are arrays, and options without a value or default are undefined.
  */
-type ResponseBody = string | Uint8Array | ReadableStream<Uint8Array>
+export type CliOptionValue = string | number | boolean | string[] | number[] | undefined
 
 /**
- * A {@link Renderer}'s result type, data that can be rendered
+ * An option accepted by a {@link CliCommand}
  */
-export type RenderResult = ResponseBody | JSX.Element
+export type CliOption = {
+	/**
+	 * The option's name, used as `--name`
+	 */
+	name: string
 
-/**
- * A function that returns rendered data
- */
-export type Renderer = () => RenderResult | Promise<RenderResult>
+	/**
+	 * A single-character short name, used as `-n` (optional)
+	 */
+	short?: string
 
-/**
- * The main site class generator class.
- * To use it, instantiate it and then use the {@link setRoute} and {@link mapStatic} methods to set routes and static file mappings.
- *
- * To render the site to a directory, use the {@link build} method.
- * To serve the site live, use the {@link serve} method.
- *
- * To act as a CLI, use the {@link cli} method.
- */
-export class SiteGenerator {
 	/**
-	 * A map of routes and their corresponding renderers.
-	 * It's recommended to use {@link setRoute} rather than manipulating this object directly.
+	 * The option's value type (defaults to `boolean`)
 	 */
-	public readonly routes = new Map<string, Renderer>()
+	type?: CliOptionType
 
 	/**
-	 * A map of routes and routes where static resources will be served and the directories from which the static resources will be sourced.
-	 * It's recommended to use {@link mapStatic} rather than manipulating this object directory.
+	 * The option's description, shown in the help text
 	 */
-	public readonly staticMappings = new Map<string, string>()
+	description: string
 
 	/**
-	 * The filename to use for index files (defaults to 'index.html').
-	 * You may also use {@link setIndexFilename} fluently.
+	 * The name of the option's value in the help text, such as `dir` for `--out=<dir>` (defaults to the choices or the type)
 	 */
-	public indexFilename = 'index.html'
+	valueName?: string
 
 	/**
-	 * The filename to use for the not found page (defaults to '404.html')
-	 * You may also use {@link setNotFoundFilename} fluently.
+	 * The value to use if the option is not specified.
+	 * Boolean options default to false, options that can be specified more than once default to an empty array, and other options default to undefined.
 	 */
-	public notFoundFilename = '404.html'
+	default?: string | number | boolean
 
-	constructor() {}
+	/**
+	 * Whether the option can be specified more than once (defaults to false).
+	 * If true, its value is an array of all values, and values can also be separated by commas.
+	 * Otherwise, the last value is used.
+	 */
+	multiple?: boolean
 
 	/**
-	 * Processes a {@link RenderResult} into a {@link ResponseBody}
-	 * @param renderResult The {@link RenderResult} to process
-	 * @returns  The resulting {@link ResponseBody}
+	 * The values the option accepts, or undefined to accept any value
 	 */
-	private async toResponseBody(
-		renderResult: RenderResult,
-	): Promise<ResponseBody> {
-		// Based on object signature, determine whether this is a JSX.Element object
+	choices?: string[]
+}
+
+/**
+ * The context a {@link CliCommand} is run with
+ */
+export type CliCommandContext = {
+	/**
+	 * The values of the command's options by name, converted to their types and with defaults applied
+	 */
+	options: Record<string, CliOptionValue>
+
+	/**
+	 * The normal arguments after the command's name
+	 */
+	args: string[]
+
+	/**
+	 * The parsed command line arguments
+	 */
+	parsedArgs: ParsedArgs
+
+	/**
+	 * The {@link SiteGenerator} the command is run for
+	 */
+	ssg: SiteGenerator
+}
+
+/**
+ * A CLI command, registered with {@link SiteGenerator.addCommand}
+ */
+export type CliCommand = {
+	/**
+	 * The command's name, as it is typed on the command line
+	 */
+	name: string
+
+	/**
+	 * The command's description, shown in the help text
+	 */
+	description: string
+
+	/**
+	 * A description of the normal arguments the command accepts in the help text, such as `[command]` (optional)
+	 */
+	usage?: string
+
+	/**
+	 * The options the command accepts.
+	 * Any other option is rejected, except `--help`, which prints the command's help text.
+	 */
+	options?: CliOption[]
+
+	/**
+	 * Runs the command
+	 * @param ctx The {@link CliCommandContext}
+	 */
+	run(ctx: CliCommandContext): void | Promise<void>
+}
+
+/**
+ * The option accepted by every command, which prints the command's help text instead of running it
+ */
+const helpOption: CliOption = {
+	name: 'help',
+	short: 'h',
+	description: 'Prints the help text of the command',
+}
+
+/**
+ * Returns the Levenshtein distance between two strings, which is used to suggest names for mistyped commands and options
+ * @param a The first string
+ * @param b The second string
+ * @returns The minimum number of single-character insertions, deletions and substitutions that turn one string into the other
+ */
+function getEditDistance(a: string, b: string): number {
+	let prev = Array.from({ length: b.length + 1 }, (_, i) => i)
+	for (let i = 1; i <= a.length; i++) {
+		const cur = [i]
+		for (let j = 1; j <= b.length; j++) {
+			cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+		}
+		prev = cur
+	}
+	return prev[b.length]
+}
+
+/**
+ * Finds the name closest to a mistyped one
+ * @param name The mistyped name
+ * @param candidates The valid names
+ * @returns The closest valid name, or null if none are close enough
+ */
+function suggestName(name: string, candidates: string[]): string | null {
+	let best: string | null = null
+	let bestDistance = Math.min(3, name.length)
+	for (const candidate of candidates) {
+		const distance = getEditDistance(name, candidate)
+		if (distance < bestDistance) {
+			best = candidate
+			bestDistance = distance
+		}
+	}
+	return best
+}
+
+/**
+ * Formats an option for the help text, such as `-p, --port=<int>`
+ * @param option The {@link CliOption}
+ * @returns The formatted option
+ */
+function formatCliOptionUsage(option: CliOption): string {
+	const short = option.short === undefined ? '' : `-${option.short}, `
+	const type = option.type ?? 'boolean'
+
+	if (type === 'boolean') {
+		// Options that are enabled by default are disabled with a value
+		return option.default === true ? `${short}--${option.name}=<true|false>` : `${short}--${option.name}`
+	}
+
+	const valueName = option.valueName ?? option.choices?.join('|') ?? type
+	return `${short}--${option.name}=<${valueName}>`
+}
+
+/**
+ * Converts the raw values of an option into its typed value, validating them
+ * @param option The {@link CliOption}
+ * @param rawValues The raw values, in the order they were specified
+ * @returns The typed value
+ */
+function parseCliOptionValue(option: CliOption, rawValues: (string | null)[]): CliOptionValue {
+	const type = option.type ?? 'boolean'
+
+	if (rawValues.length === 0) {
+		return option.default ?? (option.multiple ? [] : type === 'boolean' ? false : undefined)
+	}
+
+	if (type === 'boolean') {
+		const value = rawValues[rawValues.length - 1]
+		if (value === null || ['true', 'yes', 'y', '1'].includes(value.toLowerCase())) {
+			return true
+		} else if (['false', 'no', 'n', '0'].includes(value.toLowerCase())) {
+			return false
+		} else {
+			throw new Error(`Option --${option.name} must be true or false, got "${value}"`)
+		}
+	}
+
+	const values: string[] = []
+	for (const value of rawValues) {
+		if (value === null) {
+			throw new Error(`Option --${option.name} requires a value`)
+		}
+		values.push(...(option.multiple ? value.split(',').filter(part => part !== '') : [value]))
+	}
+
+	const parsed = values.map(value => {
+		if (option.choices !== undefined && !option.choices.includes(value)) {
+			throw new Error(`Option --${option.name} must be one of ${option.choices.map(choice => `"${choice}"`).join(', ')}, got "${value}"`)
+		}
+
+		if (type === 'int') {
+			if (!/^[+-]?[0-9]+$/.test(value)) {
+				throw new Error(`Option --${option.name} must be an integer, got "${value}"`)
+			}
+			return parseInt(value, 10)
+		} else if (type === 'float') {
+			const float = Number(value)
+			if (value.trim() === '' || !Number.isFinite(float)) {
+				throw new Error(`Option --${option.name} must be a number, got "${value}"`)
+			}
+			return float
+		} else {
+			return value
+		}
+	})
+
+	if (option.multiple) {
+		return parsed as string[] | number[]
+	}
+	return parsed[parsed.length - 1]
+}
+
+/**
+ * Returns whether the given object is in the shape of JSX.Element
+ * @param obj The object to check
+ * @returns Whether the given object is in the shape of JSX.Element
+ */
+export function isObjectJsxElement(obj: any): obj is JSX.Element {
+	return typeof obj === 'object' &&
+		'type' in obj as any &&
+		'props' in obj as any &&
+		'key' in obj
+}
+
+/**
+ * Creates a {@link Renderer} for a module that returns a {@link Renderer} or {@link RenderResult} value.
+ * The {@link Renderer} that this function returns will dynamically import the module when it is called.
+ * This function will ensure that the module is reloaded with Bun's hot reload feature.
+ *
+ * If the module's default export is a {@link Renderer}, it will receive the {@link RenderContext}.
+ *
+ * @param modulePath The module's path, as you would specify it for {@link import()} or {@link require()}
+ * @returns The resulting {@link Renderer}
+ */
+export function moduleRenderer(modulePath: string): Renderer {
+	const renderer = async function (ctx: RenderContext): Promise<RenderResult> {
+		const def = (await import(modulePath)).default
+		if (typeof def === 'function')
+			return await def(ctx)
+		else
+			return def
+	}
+
+	moduleRendererPaths.set(renderer, modulePath)
+
+	return renderer
+}
+
+/**
+ * Resolves the path of a module used with {@link moduleRenderer} to an absolute file path.
+ * Module paths are resolved from this file, since that is where they are imported.
+ *
+ * @param modulePath The module's path
+ * @returns The module's file path
+ */
+function resolveModulePath(modulePath: string): string {
+	return Bun.resolveSync(modulePath, import.meta.dir)
+}
+
+/**
+ * Valid data to be used as a body when constructing a {@link Response} object
+ */
+type ResponseBody = string | Uint8Array | ReadableStream<Uint8Array>
+
+/**
+ * Appends a string to a {@link ResponseBody}.
+ * Streams are not consumed, the string is appended when they end.
+ * @param body The body to append to
+ * @param str The string to append
+ * @returns The resulting body
+ */
+function appendToResponseBody(body: ResponseBody, str: string): ResponseBody {
+	if (typeof body === 'string') {
+		return body + str
+	}
+
+	const bytes = new TextEncoder().encode(str)
+
+	if (body instanceof Uint8Array) {
+		const res = new Uint8Array(body.length + bytes.length)
+		res.set(body)
+		res.set(bytes, body.length)
+		return res
+	} else {
+		return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+			flush(controller) {
+				controller.enqueue(bytes)
+			},
+		}))
+	}
+}
+
+/**
+ * The path the development server sends live reload events on
+ */
+const liveReloadPath = '/__ssg/live-reload'
+
+/**
+ * The live reload client script that is injected into HTML pages served by the development server.
+ * It reloads the page on `reload` events, and swaps stylesheets on `css` events.
+ */
+const liveReloadSnippet = `<script>(() => {
+	const source = new EventSource(${JSON.stringify(liveReloadPath)})
+	source.onmessage = (msg) => {
+		if (JSON.parse(msg.data).type === 'css') {
+			for (const link of document.querySelectorAll('link[rel="stylesheet"]')) {
+				const url = new URL(link.href)
+				url.searchParams.set('ssg-reload', Date.now().toString())
+				link.href = url.href
+			}
+		} else {
+			location.reload()
+		}
+	}
+})()</script>`
+
+/**
+ * A live reload event sent to development server clients
+ */
+type LiveReloadEvent = { type: 'reload' | 'css' }
+
+/**
+ * Live reload state that is kept on `globalThis` so that it survives Bun's hot reloading re-running the entrypoint
+ */
+type LiveReloadState = {
+	clients: Set<ReadableStreamDefaultController<Uint8Array>>
+	watchers: FSWatcher[]
+	timeout: Timer | null
+}
+
+/**
+ * The `globalThis` key of the {@link LiveReloadState}
+ */
+const liveReloadStateKey = Symbol.for('simple-jsx-ssg.liveReloadState')
+
+/**
+ * A location in a source file, parsed from a stack trace
+ */
+type SourceLocation = {
+	file: string
+	line: number
+	column: number
+}
+
+/**
+ * Finds the most relevant source location in an error's stack trace.
+ * Frames in this library and in dependencies are skipped if possible, since the error is most likely caused by the site's own code.
+ *
+ * @param err The error
+ * @returns The source location, or null if the stack trace has no frames with file locations
+ */
+function findErrorLocation(err: unknown): SourceLocation | null {
+	const stack = err instanceof Error ? err.stack ?? '' : ''
+
+	const locations: SourceLocation[] = []
+	for (const match of stack.matchAll(/^\s*at (?:.*? \()?(.+?):(\d+):(\d+)\)?$/gm)) {
+		locations.push({ file: match[1], line: Number(match[2]), column: Number(match[3]) })
+	}
+
+	return locations.find(location => location.file !== import.meta.path && !location.file.includes('/node_modules/')) ?? locations[0] ?? null
+}
+
+/**
+ * Formats an error's message along with its causes, such as the errors wrapped by post-processor failures
+ * @param err The error
+ * @returns The formatted message
+ */
+function formatErrorMessage(err: unknown): string {
+	let message = err instanceof Error ? `${err.name}: ${err.message}` : String(err)
+	if (err instanceof Error && err.cause !== undefined) {
+		message += '\nCaused by ' + formatErrorMessage(err.cause)
+	}
+
+	return message
+}
+
+/**
+ * Renders the development server's error page for an error thrown while handling a request.
+ * It includes the route and path, the error message, a snippet of the source around the error's location, and the stack trace.
+ *
+ * @param err The error
+ * @param route The route that was being rendered, or null if the error did not happen while rendering a route
+ * @param path The requested path
+ * @returns The error page's HTML
+ */
+async function renderErrorPage(err: unknown, route: string | null, path: string): Promise<string> {
+	// Errors from causes are more specific, so their locations are preferred
+	let innermost = err
+	while (innermost instanceof Error && innermost.cause !== undefined) {
+		innermost = innermost.cause
+	}
+	const location = findErrorLocation(innermost) ?? findErrorLocation(err)
+
+	let snippet = ''
+	if (location !== null && await exists(location.file)) {
+		const lines = (await Bun.file(location.file).text()).split('\n')
+		const first = Math.max(location.line - 4, 0)
+		const last = Math.min(location.line + 3, lines.length)
+
+		for (let i = first; i < last; i++) {
+			const lineNumber = String(i + 1).padStart(String(last).length)
+			const current = i + 1 === location.line
+			snippet += `<span${current ? ' class="current"' : ''}>${current ? '>' : ' '} ${lineNumber} | ${escapeXml(lines[i])}</span>\n`
+		}
+	}
+
+	const stacks: string[] = []
+	for (let cur = err; cur instanceof Error; cur = cur.cause) {
+		stacks.push(cur.stack ?? cur.message)
+	}
+
+	return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Error: ${escapeXml(path)}</title>
+<style>
+body { margin: 0; padding: 2rem; background: #1e1e1e; color: #ddd; font-family: system-ui, sans-serif; }
+h1 { color: #ff6b6b; font-size: 1.4rem; }
+pre { background: #111; padding: 1rem; overflow-x: auto; border-radius: 4px; }
+.current { color: #ff6b6b; font-weight: bold; }
+.meta { color: #999; }
+</style>
+</head>
+<body>
+<h1>${route === null ? 'Error while handling' : 'Error while rendering'} ${escapeXml(path)}</h1>
+${route === null ? '' : `<p class="meta">Route: <code>${escapeXml(route)}</code></p>`}
+<pre>${escapeXml(formatErrorMessage(err))}</pre>
+${location === null ? '' : `<p class="meta">${escapeXml(location.file)}:${location.line}:${location.column}</p>`}
+${snippet === '' ? '' : `<pre>${snippet}</pre>`}
+<p class="meta">Stack trace:</p>
+<pre>${escapeXml(stacks.join('\n\nCaused by: '))}</pre>
+</body>
+</html>
+`
+}
+
+/**
+ * Paths of modules used by {@link Renderer}s created with {@link moduleRenderer}
+ */
+const moduleRendererPaths = new WeakMap<Renderer, string>()
+
+/**
+ * A {@link Renderer} result with response metadata
+ */
+export type RouteResponse = {
+	/**
+	 * The response body
+	 */
+	body: ResponseBody | JSX.Element
+
+	/**
+	 * The content type (defaults to HTML for JSX elements, and otherwise to the type for the output file's extension)
+	 */
+	contentType?: string
+
+	/**
+	 * Extra headers to send with the response.
+	 * They are sent by the development server, and included in the `_headers` file when building with it enabled.
+	 */
+	headers?: Record<string, string>
+
+	/**
+	 * The status code the development server responds with (defaults to 200, or 404 for the not found page)
+	 */
+	status?: number
+}
+
+/**
+ * A {@link Renderer}'s result type, data that can be rendered, optionally with response metadata
+ */
+export type RenderResult = ResponseBody | JSX.Element | RouteResponse
+
+/**
+ * Returns whether the given {@link RenderResult} is a {@link RouteResponse}
+ * @param obj The object to check
+ * @returns Whether the object is a {@link RouteResponse}
+ */
+export function isRouteResponse(obj: RenderResult): obj is RouteResponse {
+	return typeof obj === 'object' &&
+		obj !== null &&
+		!(obj instanceof Uint8Array) &&
+		!(obj instanceof ReadableStream) &&
+		!isObjectJsxElement(obj) &&
+		'body' in obj
+}
+
+/**
+ * A redirect registered with {@link SiteGenerator.setRedirect}
+ */
+export type Redirect = {
+	/**
+	 * The path or URL to redirect to
+	 */
+	to: string
+
+	/**
+	 * The redirect's status code
+	 */
+	status: number
+}
+
+/**
+ * Renders an HTML page that redirects to another URL with a `<meta http-equiv="refresh">` tag, for hosts that do not support redirects
+ * @param to The URL to redirect to
+ * @returns The HTML page
+ */
+export function renderRedirectPage(to: string): string {
+	const escaped = escapeXml(to)
+
+	return '<!DOCTYPE html><html><head>' +
+		'<meta charset="utf-8">' +
+		'<title>Redirecting...</title>' +
+		`<link rel="canonical" href="${escaped}">` +
+		`<meta http-equiv="refresh" content="0; url=${escaped}">` +
+		'</head><body>' +
+		`<p>Redirecting to <a href="${escaped}">${escaped}</a>...</p>` +
+		'</body></html>'
+}
+
+/**
+ * Parameters matched from a dynamic route pattern, such as `{ slug: 'hello-world' }` for `/blog/:slug/` and `/blog/hello-world/`
+ */
+export type RouteParams = Record<string, string>
+
+/**
+ * The mode a {@link Renderer} is being called in.
+ * It is `build` when building the site to a directory, and `dev` when serving it with the development server.
+ */
+export type RenderMode = 'build' | 'dev'
+
+/**
+ * Information about the route being rendered, passed to every {@link Renderer}
+ */
+export type RenderContext = {
+	/**
+	 * The route being rendered, as it was registered (for example, `/blog/:slug/`)
+	 */
+	route: string
+
+	/**
+	 * The concrete path being rendered (for example, `/blog/hello-world/`)
+	 */
+	path: string
+
+	/**
+	 * The path of the output file, relative to the output directory (for example, `/blog/hello-world/index.html`)
+	 */
+	outFile: string
+
+	/**
+	 * The mode the renderer is being called in
+	 */
+	mode: RenderMode
+
+	/**
+	 * The params matched from the route.
+	 * For routes that are not dynamic, this is an empty object.
+	 */
+	params: RouteParams
+
+	/**
+	 * The site's base URL, or null if none was set with {@link SiteGenerator.setSiteUrl}
+	 */
+	siteUrl: string | null
+
+	/**
+	 * The base path the site is served under, such as `/docs/` (see {@link SiteGenerator.setBasePath})
+	 */
+	basePath: string
+
+	/**
+	 * The page's canonical URL, built from the site URL and its canonical path (including the base path), or null if no site URL was set.
+	 * It is used by {@link Seo} for the canonical link and `og:url`.
+	 */
+	canonicalUrl: string | null
+
+	/**
+	 * The locale being rendered, or null if the route was not registered with {@link SiteGenerator.setLocalizedRoute}
+	 */
+	locale: string | null
+
+	/**
+	 * The versions of the page in every locale, including the current one, or an empty array if the route is not localized.
+	 * These are also added to the page's `<head>` as `hreflang` alternate links.
+	 */
+	alternates: LocaleAlternate[]
+
+	/**
+	 * Looks up a translated message for the current locale, falling back to the default locale and then to the key itself.
+	 * `{name}` placeholders in the message are replaced with the corresponding values.
+	 *
+	 * @param key The message key
+	 * @param values The values to fill placeholders with (defaults to an empty object)
+	 * @returns The translated message
+	 */
+	t(key: string, values?: Record<string, string | number>): string
+
+	/**
+	 * Resolves the path of a static file to its URL, including the base path.
+	 * For files in static mappings with fingerprinting enabled, this is the URL of the fingerprinted copy (for example, `/assets/app.3f9a1c2b.css` for `/assets/app.css`).
+	 * Other paths are returned as-is.
+	 *
+	 * @param path The path of the static file, as it would be served without fingerprinting (for example, `/assets/app.css`)
+	 * @returns The file's URL
+	 */
+	asset(path: string): string
+
+	/**
+	 * Returns a `<picture>` element for an image in a static mapping, with resized variants in modern formats.
+	 * The variants are listed in `srcset` attributes along with the `sizes` option, and the intrinsic `width` and `height` are set to avoid layout shifts.
+	 * Builds write the variants (which are cached between builds in {@link SiteGenerator.imageCacheDir}), and the development server generates them when they are requested.
+	 * SVG images are not resized, and result in a plain `<img>` element.
+	 *
+	 * @param src The path of the image, as it is served by a static mapping (for example, `/images/hero.png`)
+	 * @param options The {@link ImageOptions}
+	 * @returns The `<picture>` element
+	 */
+	image(src: string, options: ImageOptions): Promise<JSX.Element>
+
+	/**
+	 * Returns the `<link>` and `<script>` tags that load a client entry registered with {@link SiteGenerator.setClientEntry}
+	 * @param name The client entry's name
+	 * @returns The tags
+	 */
+	clientTags(name: string): JSX.Element
+
+	/**
+	 * Generates a link to a registered route, including the base path and following the trailing slash policy.
+	 * Dynamic routes need their params to be specified, which will be URL-encoded.
+	 * Routes registered with {@link SiteGenerator.setLocalizedRoute} link to their version in the current locale (or the default locale if the current route is not localized).
+	 * Throws an error if the route is not registered.
+	 *
+	 * @param route The route to link to (for example, `/blog/:slug/`)
+	 * @param params The params to fill the route with (defaults to an empty object)
+	 * @returns The link
+	 */
+	link(route: string, params?: RouteParams): string
+}
+
+/**
+ * A function that returns rendered data.
+ * It receives a {@link RenderContext} with information about the route being rendered.
+ */
+export type Renderer = (ctx: RenderContext) => RenderResult | Promise<RenderResult>
+
+/**
+ * A function that enumerates all concrete paths for a dynamic route by returning the {@link RouteParams} for each of them
+ */
+export type PathsProvider = () => RouteParams[] | Promise<RouteParams[]>
+
+/**
+ * Returns whether the given route is dynamic, meaning that it contains at least one `:name` parameter segment
+ * @param route The route to check
+ * @returns Whether the route is dynamic
+ */
+export function isDynamicRoute(route: string): boolean {
+	return route.split('/').some(segment => segment.startsWith(':'))
+}
+
+/**
+ * Matches a path against a route pattern, such as `/blog/:slug/`.
+ * Parameter segments match exactly one non-empty path segment, and all other segments must match exactly.
+ * Matched values are URL-decoded.
+ *
+ * @param pattern The route pattern
+ * @param path The path to match
+ * @returns The matched {@link RouteParams}, or null if the path does not match the pattern
+ */
+export function matchRoute(pattern: string, path: string): RouteParams | null {
+	const patternSegments = pattern.split('/')
+	const pathSegments = path.split('/')
+
+	if (patternSegments.length !== pathSegments.length) {
+		return null
+	}
+
+	const params: RouteParams = {}
+	for (let i = 0; i < patternSegments.length; i++) {
+		const patternSegment = patternSegments[i]
+		const pathSegment = pathSegments[i]
+
+		if (patternSegment.startsWith(':')) {
+			if (pathSegment === '') {
+				return null
+			}
+
+			try {
+				params[patternSegment.substring(1)] = decodeURIComponent(pathSegment)
+			} catch (err) {
+				// Malformed percent-encoding can't match anything
+				return null
+			}
+		} else if (patternSegment !== pathSegment) {
+			return null
+		}
+	}
+
+	return params
+}
+
+/**
+ * Fills in the parameter segments of a route pattern, producing a concrete path.
+ * Parameter values may not be empty, contain slashes, or be `.` or `..`.
+ *
+ * @param pattern The route pattern, such as `/blog/:slug/`
+ * @param params The {@link RouteParams} to fill the pattern with
+ * @returns The resulting concrete path
+ */
+export function fillRoute(pattern: string, params: RouteParams): string {
+	return pattern
+		.split('/')
+		.map(segment => {
+			if (!segment.startsWith(':')) {
+				return segment
+			}
+
+			const name = segment.substring(1)
+			const value = params[name]
+			if (value === undefined) {
+				throw new Error(`Missing value for parameter "${name}" of route ${pattern}`)
+			}
+			if (value === '' || value === '.' || value === '..' || value.includes('/')) {
+				throw new Error(`Invalid value "${value}" for parameter "${name}" of route ${pattern}`)
+			}
+
+			return value
+		})
+		.join('/')
+}
+
+/**
+ * Internationalization options, set with {@link SiteGenerator.setI18n}
+ */
+export type I18nOptions = {
+	/**
+	 * The locales the site is published in, such as `['en', 'de']`
+	 */
+	locales: string[]
+
+	/**
+	 * The default locale, which must be one of {@link locales}
+	 */
+	defaultLocale: string
+
+	/**
+	 * Whether routes in the default locale are prefixed with it as well (defaults to false, which serves the default locale at the root)
+	 */
+	prefixDefaultLocale?: boolean
+
+	/**
+	 * Translated messages, keyed by locale and then by message key.
+	 * Messages may contain `{name}` placeholders, which are filled by {@link RenderContext.t}.
+	 */
+	translations?: Record<string, Record<string, string>>
+}
+
+/**
+ * A version of the page being rendered in another locale (or the same one)
+ */
+export type LocaleAlternate = {
+	/**
+	 * The alternate's locale
+	 */
+	locale: string
+
+	/**
+	 * The alternate's URL, which is absolute if a site URL is set
+	 */
+	url: string
+}
+
+/**
+ * Picks the best locale for an `Accept-Language` header.
+ * Language ranges are tried in order of preference, matching locales exactly first and then by their primary language (for example, `de-AT` matches `de`).
+ *
+ * @param header The `Accept-Language` header's value
+ * @param locales The available locales
+ * @returns The best locale, or null if none of the locales are acceptable
+ */
+function negotiateLocale(header: string, locales: string[]): string | null {
+	const ranges = header.split(',')
+		.map(part => {
+			const [tag, ...params] = part.split(';').map(str => str.trim())
+			const q = params.find(param => param.startsWith('q='))
+			return { tag: tag.toLowerCase(), q: q === undefined ? 1 : Number(q.substring(2)) }
+		})
+		.filter(range => range.tag !== '' && range.tag !== '*' && range.q > 0)
+		.sort((a, b) => b.q - a.q)
+
+	for (const { tag } of ranges) {
+		const language = tag.split('-')[0]
+		const locale =
+			locales.find(locale => locale.toLowerCase() === tag) ??
+			locales.find(locale => locale.toLowerCase().split('-')[0] === language)
+		if (locale !== undefined) {
+			return locale
+		}
+	}
+
+	return null
+}
+
+/**
+ * Escapes a string for use in XML text and attribute values
+ * @param str The string to escape
+ * @returns The escaped string
+ */
+function escapeXml(str: string): string {
+	return str
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;')
+}
+
+/**
+ * The elements that can be declared as {@link HeadEntry}s
+ */
+export type HeadTag = 'title' | 'meta' | 'link' | 'script' | 'style' | 'base'
+
+/**
+ * An element to add to the `<head>` of the page being rendered, declared with {@link useHead}
+ */
+export type HeadEntry = {
+	/**
+	 * The element's tag
+	 */
+	tag: HeadTag
+
+	/**
+	 * The element's attributes.
+	 * Attributes that are `true` are rendered without a value, and attributes that are `false`, null or undefined are omitted.
+	 */
+	attributes?: Record<string, string | number | boolean | null | undefined>
+
+	/**
+	 * The element's text content, which is escaped unless the element is a `<script>` or `<style>`
+	 */
+	content?: string
+
+	/**
+	 * The key entries are deduplicated by, where an entry replaces the previously declared entry with the same key.
+	 * If not specified, it is determined from the element: `title`, `base`, `meta:charset`, `meta:name:<name>`, `meta:property:<property>`, `meta:http-equiv:<value>` or `link:canonical`.
+	 * Other elements are only deduplicated with identical entries, so that a component that renders more than once (for example, after suspending) doesn't declare them twice.
+	 */
+	key?: string
+}
+
+/**
+ * The head entries collected while rendering a page
+ */
+type HeadState = {
+	/**
+	 * The declared entries, keyed by their deduplication keys, in the order they were first declared
+	 */
+	entries: Map<string, HeadEntry>
+
+	/**
+	 * The canonical URL of the page being rendered, or null if it is not known
+	 */
+	canonicalUrl: string | null
+}
+
+/**
+ * The context that {@link useHead} declares entries in
+ */
+const HeadContext = createContext<HeadState | null>(null)
+
+/**
+ * Determines the deduplication key of a `<head>` element from its tag and attributes
+ * @param tag The element's tag
+ * @param attributes The element's attributes
+ * @returns The key, or null if elements like it are not deduplicated
+ */
+function getHeadEntryKey(tag: string, attributes: Record<string, unknown>): string | null {
+	const attr = (name: string) => {
+		const value = attributes[name]
+		return value === undefined || value === null || value === false ? null : String(value)
+	}
+
+	switch (tag.toLowerCase()) {
+		case 'title':
+		case 'base':
+			return tag.toLowerCase()
+		case 'meta':
+			if (attr('charset') !== null) {
+				return 'meta:charset'
+			}
+			for (const name of ['name', 'property', 'http-equiv']) {
+				const value = attr(name)
+				if (value !== null) {
+					return `meta:${name}:${value}`
+				}
+			}
+			return null
+		case 'link':
+			return attr('rel')?.toLowerCase() === 'canonical' ? 'link:canonical' : null
+		default:
+			return null
+	}
+}
+
+/**
+ * Renders a {@link HeadEntry} to HTML
+ * @param entry The entry
+ * @returns The element's HTML
+ */
+function renderHeadEntry({ tag, attributes = {}, content }: HeadEntry): string {
+	let html = '<' + tag
+	for (const [name, value] of Object.entries(attributes)) {
+		if (value === true) {
+			html += ' ' + name
+		} else if (value !== false && value !== null && value !== undefined) {
+			html += ` ${name}="${escapeXml(String(value))}"`
+		}
+	}
+
+	if (tag === 'meta' || tag === 'link' || tag === 'base') {
+		return html + '/>'
+	}
+
+	// Raw text can't be escaped, so only sequences that would end the element early are broken up
+	const text = content === undefined
+		? ''
+		: tag === 'script' || tag === 'style' ? content.replace(new RegExp(`</(${tag})`, 'gi'), '<\\/$1') : escapeXml(content)
+
+	return `${html}>${text}</${tag}>`
+}
+
+/**
+ * Injects declared head entries into the `<head>` of an HTML document.
+ * Elements already in the `<head>` are removed if an entry with the same key was declared, so that the declared entries take precedence over the document's own.
+ *
+ * @param body The HTML document
+ * @param head The {@link HeadState} with the declared entries
+ * @returns The resulting HTML document
+ */
+function injectHead(body: ReadableStream<Uint8Array>, head: HeadState): ReadableStream<Uint8Array> {
+	let html = ''
+	for (const entry of head.entries.values()) {
+		html += renderHeadEntry(entry)
+	}
+
+	return new HTMLRewriter()
+		.on('head > title, head > base, head > meta, head > link', {
+			element(el) {
+				const attributes: Record<string, string | null> = {}
+				for (const name of ['charset', 'name', 'property', 'http-equiv', 'rel']) {
+					attributes[name] = el.getAttribute(name)
+				}
+
+				const key = getHeadEntryKey(el.tagName, attributes)
+				if (key !== null && head.entries.has(key)) {
+					el.remove()
+				}
+			},
+		})
+		.on('head', {
+			element(el) {
+				el.append(html, { html: true })
+			},
+		})
+		.transform(new Response(body))
+		.body as ReadableStream<Uint8Array>
+}
+
+/**
+ * Declares elements to add to the `<head>` of the page being rendered.
+ * Any component can declare entries, and an entry replaces the previously declared entry with the same key.
+ * Since components render before their children, entries declared by children override the ones declared by their parents.
+ *
+ * Entries are injected by {@link renderToString}, and when the {@link SiteGenerator} renders pages if {@link SiteGenerator.enableHeadManagement} was called.
+ * Elsewhere, such as when hydrating components on the client, this does nothing.
+ *
+ * @param entries The {@link HeadEntry}s to declare
+ */
+export function useHead(entries: HeadEntry[]): void {
+	const head = useContext(HeadContext)
+	if (head === null) {
+		return
+	}
+
+	for (const entry of entries) {
+		const key =
+			entry.key ??
+			getHeadEntryKey(entry.tag, entry.attributes ?? {}) ??
+			JSON.stringify([entry.tag, entry.attributes ?? {}, entry.content ?? null])
+
+		head.entries.set(key, entry)
+	}
+}
+
+/**
+ * SEO metadata of a page, declared with {@link Seo}.
+ * Only the specified fields are declared, so fields of a parent component's metadata remain in effect unless they are overridden.
+ */
+export type SeoMetadata = {
+	/**
+	 * The page's title, used for `<title>` and `og:title`
+	 */
+	title?: string
+
+	/**
+	 * The page's description, used for the `description` meta tag and `og:description`
+	 */
+	description?: string
+
+	/**
+	 * The page's canonical URL, used for the canonical link and `og:url`.
+	 * If true, the URL built from the site URL and the page's canonical path is used, which requires a site URL to be set with {@link SiteGenerator.setSiteUrl}.
+	 * If false, no canonical link is declared.
+	 * (defaults to true)
+	 */
+	canonical?: string | boolean
+
+	/**
+	 * The URL of the image shown when the page is shared, used for `og:image`.
+	 * Relative URLs are resolved against the canonical URL.
+	 */
+	image?: string
+
+	/**
+	 * The image's alternative text, used for `og:image:alt`
+	 */
+	imageAlt?: string
+
+	/**
+	 * The page's Open Graph type, such as `website` or `article`
+	 */
+	type?: string
+
+	/**
+	 * The site's name, used for `og:site_name`
+	 */
+	siteName?: string
+
+	/**
+	 * The page's locale in Open Graph format, such as `en_US`
+	 */
+	locale?: string
+
+	/**
+	 * The Twitter card type (defaults to `summary_large_image` if an image is specified)
+	 */
+	twitterCard?: 'summary' | 'summary_large_image' | 'app' | 'player'
+
+	/**
+	 * The Twitter handle of the site, such as `@example`
+	 */
+	twitterSite?: string
+
+	/**
+	 * The Twitter handle of the page's author
+	 */
+	twitterCreator?: string
+
+	/**
+	 * Whether to ask search engines not to index the page
+	 */
+	noindex?: boolean
+}
+
+/**
+ * Converts {@link SeoMetadata} to the {@link HeadEntry}s it declares
+ * @param metadata The metadata
+ * @param canonicalUrl The page's canonical URL built from the site URL, or null if it is not known (defaults to null)
+ * @returns The head entries
+ */
+export function getSeoHeadEntries(metadata: SeoMetadata, canonicalUrl: string | null = null): HeadEntry[] {
+	const entries: HeadEntry[] = []
+	const meta = (attribute: 'name' | 'property', name: string, content: string | undefined) => {
+		if (content !== undefined) {
+			entries.push({ tag: 'meta', attributes: { [attribute]: name, content } })
+		}
+	}
+
+	const url = metadata.canonical === undefined || metadata.canonical === true
+		? canonicalUrl
+		: metadata.canonical === false ? null : metadata.canonical
+	const image = metadata.image === undefined || url === null ? metadata.image : new URL(metadata.image, url).href
+
+	if (metadata.title !== undefined) {
+		entries.push({ tag: 'title', content: metadata.title })
+	}
+	meta('name', 'description', metadata.description)
+	if (url !== null) {
+		entries.push({ tag: 'link', attributes: { rel: 'canonical', href: url } })
+	}
+	if (metadata.noindex === true) {
+		meta('name', 'robots', 'noindex')
+	}
+
+	meta('property', 'og:title', metadata.title)
+	meta('property', 'og:description', metadata.description)
+	meta('property', 'og:url', url ?? undefined)
+	meta('property', 'og:type', metadata.type)
+	meta('property', 'og:site_name', metadata.siteName)
+	meta('property', 'og:locale', metadata.locale)
+	meta('property', 'og:image', image)
+	meta('property', 'og:image:alt', metadata.imageAlt)
+
+	// Twitter falls back to the Open Graph tags for the title, description and image
+	meta('name', 'twitter:card', metadata.twitterCard ?? (image === undefined ? undefined : 'summary_large_image'))
+	meta('name', 'twitter:site', metadata.twitterSite)
+	meta('name', 'twitter:creator', metadata.twitterCreator)
+
+	return entries
+}
+
+/**
+ * Declares a page's title, description, canonical link, Open Graph and Twitter tags in its `<head>` (see {@link useHead}).
+ * It can be used in layouts and in the components they render, where the innermost component's values take precedence.
+ *
+ * @param props The {@link SeoMetadata}
+ * @returns Nothing, since the metadata is injected into the `<head>`
+ */
+export function Seo(props: SeoMetadata): null {
+	const head = useContext(HeadContext)
+	useHead(getSeoHeadEntries(props, head?.canonicalUrl ?? null))
+
+	return null
+}
+
+/**
+ * An entry in a {@link Feed}
+ */
+export type FeedEntry = {
+	/**
+	 * The entry's title
+	 */
+	title: string
+
+	/**
+	 * The date the entry was published
+	 */
+	date: Date
+
+	/**
+	 * The date the entry was last updated (defaults to {@link date})
+	 */
+	updated?: Date
+
+	/**
+	 * The entry's absolute URL
+	 */
+	url: string
+
+	/**
+	 * The entry's unique ID (defaults to {@link url})
+	 */
+	id?: string
+
+	/**
+	 * The entry's author.
+	 * RSS feeds use it as the `<author>` if it is an email address (optionally followed by the name, such as `jane@example.com (Jane Doe)`), and as the `<dc:creator>` otherwise.
+	 */
+	author?: string
+
+	/**
+	 * A plain text summary of the entry
+	 */
+	summary?: string
+
+	/**
+	 * The entry's content, as HTML or a JSX element that will be rendered with {@link renderToString}
+	 */
+	content?: string | JSX.Element
+}
+
+/**
+ * A feed of entries that can be rendered as RSS 2.0 with {@link renderRssFeed} or Atom with {@link renderAtomFeed}
+ */
+export type Feed = {
+	/**
+	 * The feed's title
+	 */
+	title: string
+
+	/**
+	 * The absolute URL of the site or page the feed belongs to
+	 */
+	url: string
+
+	/**
+	 * The feed's description
+	 */
+	description?: string
+
+	/**
+	 * The feed's author
+	 */
+	author?: string
+
+	/**
+	 * The date the feed was last updated (defaults to the latest entry date, or the current date if there are no entries)
+	 */
+	updated?: Date
+
+	/**
+	 * The feed's entries
+	 */
+	entries: FeedEntry[]
+}
+
+/**
+ * A function that returns a {@link Feed} for a route
+ */
+export type FeedProvider = (ctx: RenderContext) => Feed | Promise<Feed>
+
+/**
+ * Returns when a feed was last updated
+ * @param feed The feed
+ * @returns When the feed was last updated
+ */
+function getFeedUpdated(feed: Feed): Date {
+	if (feed.updated !== undefined) {
+		return feed.updated
+	}
+
+	let latest: Date | null = null
+	for (const entry of feed.entries) {
+		const updated = entry.updated ?? entry.date
+		if (latest === null || updated > latest) {
+			latest = updated
+		}
+	}
+
+	return latest ?? new Date()
+}
+
+/**
+ * Renders a feed entry's content to an HTML string
+ * @param entry The entry
+ * @returns The entry's content as HTML, or null if it has none
+ */
+async function renderFeedEntryContent(entry: FeedEntry): Promise<string | null> {
+	if (entry.content === undefined) {
+		return null
+	} else if (typeof entry.content === 'string') {
+		return entry.content
+	} else {
+		return await renderToString(entry.content)
+	}
+}
+
+/**
+ * Renders a {@link Feed} as an RSS 2.0 document
+ * @param feed The feed to render
+ * @param feedUrl The absolute URL the feed itself will be available at, if known
+ * @returns The RSS 2.0 document
+ */
+export async function renderRssFeed(feed: Feed, feedUrl?: string): Promise<string> {
+	let xml = '<?xml version="1.0" encoding="UTF-8"?>\n'
+	xml += '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">\n<channel>\n'
+	xml += `<title>${escapeXml(feed.title)}</title>\n`
+	xml += `<link>${escapeXml(feed.url)}</link>\n`
+	xml += `<description>${escapeXml(feed.description ?? feed.title)}</description>\n`
+	if (feedUrl !== undefined) {
+		xml += `<atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>\n`
+	}
+	xml += `<lastBuildDate>${getFeedUpdated(feed).toUTCString()}</lastBuildDate>\n`
+
+	for (const entry of feed.entries) {
+		const content = await renderFeedEntryContent(entry)
+
+		xml += '<item>\n'
+		xml += `<title>${escapeXml(entry.title)}</title>\n`
+		xml += `<link>${escapeXml(entry.url)}</link>\n`
+		if (entry.id === undefined) {
+			xml += `<guid isPermaLink="true">${escapeXml(entry.url)}</guid>\n`
+		} else {
+			xml += `<guid isPermaLink="false">${escapeXml(entry.id)}</guid>\n`
+		}
+		xml += `<pubDate>${entry.date.toUTCString()}</pubDate>\n`
+		if (entry.author !== undefined) {
+			// RSS requires authors to be email addresses, so names use the Dublin Core element instead
+			const isEmail = /^[^\s@]+@[^\s@]+(\s|$)/.test(entry.author)
+			xml += isEmail ? `<author>${escapeXml(entry.author)}</author>\n` : `<dc:creator>${escapeXml(entry.author)}</dc:creator>\n`
+		}
+		if (content !== null || entry.summary !== undefined) {
+			xml += `<description>${escapeXml(content ?? entry.summary as string)}</description>\n`
+		}
+		xml += '</item>\n'
+	}
+
+	xml += '</channel>\n</rss>\n'
+
+	return xml
+}
+
+/**
+ * Renders a {@link Feed} as an Atom document
+ * @param feed The feed to render
+ * @param feedUrl The absolute URL the feed itself will be available at, if known
+ * @returns The Atom document
+ */
+export async function renderAtomFeed(feed: Feed, feedUrl?: string): Promise<string> {
+	let xml = '<?xml version="1.0" encoding="UTF-8"?>\n'
+	xml += '<feed xmlns="http://www.w3.org/2005/Atom">\n'
+	xml += `<title>${escapeXml(feed.title)}</title>\n`
+	if (feed.description !== undefined) {
+		xml += `<subtitle>${escapeXml(feed.description)}</subtitle>\n`
+	}
+	xml += `<id>${escapeXml(feedUrl ?? feed.url)}</id>\n`
+	xml += `<link href="${escapeXml(feed.url)}"/>\n`
+	if (feedUrl !== undefined) {
+		xml += `<link href="${escapeXml(feedUrl)}" rel="self" type="application/atom+xml"/>\n`
+	}
+	xml += `<updated>${getFeedUpdated(feed).toISOString()}</updated>\n`
+	if (feed.author !== undefined) {
+		xml += `<author><name>${escapeXml(feed.author)}</name></author>\n`
+	}
+
+	for (const entry of feed.entries) {
+		const content = await renderFeedEntryContent(entry)
+
+		xml += '<entry>\n'
+		xml += `<title>${escapeXml(entry.title)}</title>\n`
+		xml += `<id>${escapeXml(entry.id ?? entry.url)}</id>\n`
+		xml += `<link href="${escapeXml(entry.url)}"/>\n`
+		xml += `<published>${entry.date.toISOString()}</published>\n`
+		xml += `<updated>${(entry.updated ?? entry.date).toISOString()}</updated>\n`
+		if (entry.author !== undefined) {
+			xml += `<author><name>${escapeXml(entry.author)}</name></author>\n`
+		}
+		if (entry.summary !== undefined) {
+			xml += `<summary>${escapeXml(entry.summary)}</summary>\n`
+		}
+		if (content !== null) {
+			xml += `<content type="html">${escapeXml(content)}</content>\n`
+		}
+		xml += '</entry>\n'
+	}
+
+	xml += '</feed>\n'
+
+	return xml
+}
+
+/**
+ * How frequently a page is likely to change, as a hint for sitemap consumers
+ */
+export type SitemapChangeFrequency = 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never'
+
+/**
+ * Sitemap options for a route
+ */
+export type SitemapOptions = {
+	/**
+	 * Whether to exclude the route from the sitemap (defaults to false)
+	 */
+	exclude?: boolean
+
+	/**
+	 * The content type the route renders, if it is not determined by its output files' extensions.
+	 * Only routes that render HTML are listed, and output files without an extension are assumed to be HTML unless this is set (defaults to undefined).
+	 */
+	contentType?: string
+
+	/**
+	 * When the route's content was last modified.
+	 * For dynamic routes, a function can be provided to return it based on the path's params.
+	 */
+	lastmod?: Date | string | ((params: RouteParams) => Date | string | undefined)
+
+	/**
+	 * How frequently the route's content is likely to change
+	 */
+	changefreq?: SitemapChangeFrequency
+
+	/**
+	 * The route's priority relative to other routes on the site, from 0.0 to 1.0
+	 */
+	priority?: number
+}
+
+/**
+ * A robots.txt rule group
+ */
+export type RobotsRule = {
+	/**
+	 * The user agent the rule applies to, or `*` for all user agents
+	 */
+	userAgent: string
+
+	/**
+	 * Paths that the user agent may crawl
+	 */
+	allow?: string[]
+
+	/**
+	 * Paths that the user agent may not crawl
+	 */
+	disallow?: string[]
+}
+
+/**
+ * A function that validates parsed frontmatter data and returns it as a typed value.
+ * It should throw an error if the data is invalid.
+ * Validation libraries can be adapted easily, such as `data => PostSchema.parse(data)` with Zod.
+ */
+export type FrontmatterSchema<T> = (data: unknown) => T
+
+/**
+ * Splits a Markdown document into its YAML frontmatter and body.
+ * Frontmatter must be at the very start of the document, delimited by `---` lines.
+ * @param source The Markdown document
+ * @returns The parsed frontmatter data (or null if there is none) and the body
+ */
+export function parseFrontmatter(source: string): { data: unknown, body: string } {
+	const match = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/.exec(source)
+	if (match === null) {
+		return { data: null, body: source }
+	}
+
+	return {
+		data: parseYaml(match[1]),
+		body: source.substring(match[0].length),
+	}
+}
+
+/**
+ * An entry in a {@link ContentCollection}
+ */
+export type ContentEntry<T> = {
+	/**
+	 * The entry's slug, which is its filename without the `.md` extension
+	 */
+	slug: string
+
+	/**
+	 * The path of the entry's source file
+	 */
+	file: string
+
+	/**
+	 * The entry's validated frontmatter data
+	 */
+	data: T
+
+	/**
+	 * The entry's Markdown body, without frontmatter
+	 */
+	body: string
+
+	/**
+	 * The entry's body rendered as HTML.
+	 * To embed it in JSX, use `dangerouslySetInnerHTML={{ __html: entry.html }}`.
+	 */
+	html: string
+}
+
+/**
+ * A collection of Markdown files with YAML frontmatter in a directory.
+ * Files are read every time entries are loaded, so new and edited files are picked up without restarting.
+ *
+ * To register a route for each entry, use {@link SiteGenerator.setCollection}.
+ */
+export class ContentCollection<T> {
+	/**
+	 * The directory that contains the collection's `.md` files
+	 */
+	public readonly dir: string
+
+	/**
+	 * The schema that frontmatter data is validated with
+	 */
+	public readonly schema: FrontmatterSchema<T>
+
+	/**
+	 * Loads a single entry from a file
+	 * @param file The file's path
+	 * @returns The entry
+	 */
+	private async loadEntry(file: string): Promise<ContentEntry<T>> {
+		const { data, body } = parseFrontmatter(await Bun.file(file).text())
+
+		let validated: T
+		try {
+			validated = this.schema(data)
+		} catch (err) {
+			throw new Error(`Invalid frontmatter in ${file}: ${(err as Error).message}`, { cause: err })
+		}
+
+		return {
+			slug: basename(file, '.md'),
+			file,
+			data: validated,
+			body,
+			html: await marked.parse(body),
+		}
+	}
+
+	/**
+	 * Loads all entries in the collection, sorted by slug
+	 * @returns The entries
+	 */
+	public async load(): Promise<ContentEntry<T>[]> {
+		const files = (await readdir(this.dir))
+			.filter(file => file.endsWith('.md'))
+			.sort()
+
+		return await Promise.all(files.map(file => this.loadEntry(joinPaths(this.dir, file))))
+	}
+
+	/**
+	 * Loads a single entry by its slug
+	 * @param slug The entry's slug
+	 * @returns The entry, or null if there is no entry with the slug
+	 */
+	public async get(slug: string): Promise<ContentEntry<T> | null> {
+		const file = joinPaths(this.dir, slug + '.md')
+		if (slug.includes('/') || !(await exists(file))) {
+			return null
+		}
+
+		return await this.loadEntry(file)
+	}
+
+	/**
+	 * @param dir The directory that contains the collection's `.md` files
+	 * @param schema The schema that frontmatter data is validated with
+	 */
+	constructor(dir: string, schema: FrontmatterSchema<T>) {
+		this.dir = dir
+		this.schema = schema
+	}
+}
+
+/**
+ * A function that renders a {@link ContentEntry}
+ */
+export type ContentRenderer<T> = (entry: ContentEntry<T>, ctx: RenderContext) => RenderResult | Promise<RenderResult>
+
+/**
+ * Options for a static mapping
+ */
+export type StaticMappingOptions = {
+	/**
+	 * Whether to also emit a copy of each file with a content hash in its filename, such as `app.3f9a1c2b.css` for `app.css` (defaults to false).
+	 * Renderers can resolve the fingerprinted URLs with {@link RenderContext.asset}.
+	 */
+	fingerprint?: boolean
+
+	/**
+	 * Glob patterns of the files to include, or undefined to include all files (defaults to undefined).
+	 * See {@link exclude} for the pattern syntax.
+	 */
+	include?: string[]
+
+	/**
+	 * Glob patterns of the files and directories to exclude (defaults to {@link defaultStaticExcludes}).
+	 * Patterns are matched against paths relative to the mapped directory, and patterns without a slash match names at any depth, like in `.gitignore` files.
+	 * `*` matches any characters except slashes, `**` matches any number of directories, `?` matches a single character, and `{a,b}` matches either alternative.
+	 */
+	exclude?: string[]
+
+	/**
+	 * How files and directories whose names begin with a dot are handled (defaults to `include`):
+	 * - `include`: They are served like any other file
+	 * - `exclude`: They are not served
+	 */
+	dotfiles?: 'include' | 'exclude'
+
+	/**
+	 * How symbolic links inside the mapped directory are handled (defaults to `follow`):
+	 * - `follow`: Links are followed, and their targets are copied
+	 * - `link`: Links are copied as links with the same target when building (the development server follows them)
+	 * - `reject-escaping`: Links are followed, but links whose targets are outside the mapped directory cause an error
+	 */
+	symlinks?: 'follow' | 'link' | 'reject-escaping'
+
+	/**
+	 * How files that would be written to the same output path as a route, a redirect or a file of an earlier static mapping are handled (defaults to `warn`).
+	 * Routes, redirects and earlier mappings always take precedence, and the file is not copied:
+	 * - `warn`: A warning is printed when building
+	 * - `ignore`: The file is skipped silently
+	 * - `error`: The build fails
+	 */
+	conflicts?: 'warn' | 'ignore' | 'error'
+
+	/**
+	 * {@link StaticTransform}s that files are passed through when they are copied or served, in order
+	 */
+	transforms?: StaticTransform[]
+}
+
+/**
+ * Information about a static file, passed to {@link StaticTransform}s
+ */
+export type StaticFileInfo = {
+	/**
+	 * The path the file is served at, such as `/css/style.css`
+	 */
+	path: string
+
+	/**
+	 * The path of the source file
+	 */
+	sourceFile: string
+}
+
+/**
+ * A transform that static files are passed through, such as templating or minification
+ */
+export type StaticTransform = {
+	/**
+	 * The transform's name, used in error messages
+	 */
+	name: string
+
+	/**
+	 * Transforms a file's contents.
+	 * Files are read into memory if any transform applies to them.
+	 *
+	 * @param data The file's contents (after any previous transforms)
+	 * @param file The {@link StaticFileInfo}
+	 * @returns The transformed contents
+	 */
+	transform(data: Uint8Array, file: StaticFileInfo): string | Uint8Array | Promise<string | Uint8Array>
+
+	/**
+	 * Returns whether the transform applies to a file (optional, applies to all files by default)
+	 * @param file The {@link StaticFileInfo}
+	 * @returns Whether the transform applies
+	 */
+	appliesTo?(file: StaticFileInfo): boolean
+}
+
+/**
+ * The default {@link StaticMappingOptions.exclude} patterns, which exclude files created by operating systems and editors
+ */
+export const defaultStaticExcludes = ['.DS_Store', 'Thumbs.db', 'desktop.ini', '*.swp', '*.swo', '*~']
+
+/**
+ * Converts a glob pattern into a regular expression, see {@link StaticMappingOptions.exclude} for the syntax
+ * @param glob The glob pattern
+ * @returns The regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+	let src = ''
+	let braceDepth = 0
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i]
+		if (char === '*' && glob[i + 1] === '*') {
+			// `**/` also matches no directories at all
+			if (glob[i + 2] === '/') {
+				src += '(?:.*/)?'
+				i += 2
+			} else {
+				src += '.*'
+				i++
+			}
+		} else if (char === '*') {
+			src += '[^/]*'
+		} else if (char === '?') {
+			src += '[^/]'
+		} else if (char === '{') {
+			src += '(?:'
+			braceDepth++
+		} else if (char === '}' && braceDepth > 0) {
+			src += ')'
+			braceDepth--
+		} else if (char === ',' && braceDepth > 0) {
+			src += '|'
+		} else {
+			src += char.replace(/[.+^$()|[\]{}\\]/g, '\\$&')
+		}
+	}
+
+	return new RegExp(`^${src}$`)
+}
+
+/**
+ * Returns whether a path relative to a static mapping's directory matches any of the specified glob patterns
+ * @param file The relative path, without a leading slash
+ * @param globs The glob patterns
+ * @returns Whether the path matches
+ */
+function matchesGlobs(file: string, globs: string[]): boolean {
+	return globs.some(glob => {
+		if (glob.startsWith('/')) {
+			return globToRegExp(glob.substring(1)).test(file)
+		}
+		return globToRegExp(glob).test(glob.includes('/') ? file : basename(file))
+	})
+}
+
+/**
+ * Returns whether a file or directory is excluded from a static mapping by its {@link StaticMappingOptions.exclude} patterns and {@link StaticMappingOptions.dotfiles} option
+ * @param file The path relative to the mapping's directory, without a leading slash
+ * @param options The mapping's {@link StaticMappingOptions}
+ * @returns Whether the path is excluded
+ */
+function isStaticPathExcluded(file: string, options: StaticMappingOptions): boolean {
+	if (options.dotfiles === 'exclude' && basename(file).startsWith('.')) {
+		return true
+	}
+	return matchesGlobs(file, options.exclude ?? defaultStaticExcludes)
+}
+
+/**
+ * Returns whether a static mapping serves a file, applying its {@link StaticMappingOptions.include} and {@link StaticMappingOptions.exclude} patterns to the file and all of its parent directories
+ * @param file The path relative to the mapping's directory, without a leading slash
+ * @param options The mapping's {@link StaticMappingOptions}
+ * @returns Whether the file is served
+ */
+function isStaticFileIncluded(file: string, options: StaticMappingOptions): boolean {
+	const parts = file.split('/')
+	for (let i = 1; i <= parts.length; i++) {
+		if (isStaticPathExcluded(parts.slice(0, i).join('/'), options)) {
+			return false
+		}
+	}
+
+	return options.include === undefined || matchesGlobs(file, options.include)
+}
+
+/**
+ * A fingerprinted static file
+ */
+type StaticAsset = {
+	/**
+	 * The fingerprinted path the file is served at
+	 */
+	url: string
+
+	/**
+	 * The path of the source file
+	 */
+	file: string
+}
+
+/**
+ * Options for bundling client entries registered with {@link SiteGenerator.setClientEntry}
+ */
+export type ClientBundleOptions = {
+	/**
+	 * Whether to minify bundles (defaults to true when building, and false in the development server)
+	 */
+	minify?: boolean
+
+	/**
+	 * The kind of sourcemaps to generate (defaults to 'none' when building, and 'inline' in the development server)
+	 */
+	sourcemap?: 'none' | 'inline' | 'external'
+}
+
+/**
+ * A bundled client entry
+ */
+type ClientBundle = {
+	/**
+	 * The bundle's output files, keyed by the path they are served at
+	 */
+	files: Map<string, Blob>
+
+	/**
+	 * The paths of scripts that need to be loaded
+	 */
+	scripts: string[]
+
+	/**
+	 * The paths of stylesheets that need to be loaded
+	 */
+	stylesheets: string[]
+}
+
+/**
+ * An image format that variants can be generated in
+ */
+export type ImageFormat = 'avif' | 'webp' | 'png' | 'jpeg'
+
+/**
+ * Options for an optimized image, see {@link RenderContext.image}
+ */
+export type ImageOptions = {
+	/**
+	 * The image's alternative text
+	 */
+	alt: string
+
+	/**
+	 * The image's `sizes` attribute, which tells browsers how wide the image is displayed (defaults to '100vw')
+	 */
+	sizes?: string
+
+	/**
+	 * The widths to generate variants at (defaults to 320, 640, 960, 1280 and 1920).
+	 * Widths larger than the source image are replaced with the source image's width.
+	 */
+	widths?: number[]
+
+	/**
+	 * The modern formats to generate variants in, in order of preference (defaults to AVIF and WebP).
+	 * Variants in the source image's format are always generated as a fallback.
+	 */
+	formats?: ImageFormat[]
+
+	/**
+	 * The quality to encode variants with, from 1 to 100 (defaults to the encoder's default)
+	 */
+	quality?: number
+
+	/**
+	 * The `class` attribute of the `<img>` element
+	 */
+	className?: string
+
+	/**
+	 * The `loading` attribute of the `<img>` element (defaults to 'lazy')
+	 */
+	loading?: 'lazy' | 'eager'
+}
+
+/**
+ * A resized and/or converted variant of a source image
+ */
+type ImageVariant = {
+	/**
+	 * The path the variant is served at
+	 */
+	url: string
+
+	/**
+	 * The path of the source image
+	 */
+	file: string
+
+	/**
+	 * The variant's width
+	 */
+	width: number
+
+	/**
+	 * The variant's format
+	 */
+	format: ImageFormat
+
+	/**
+	 * The quality to encode the variant with, if specified
+	 */
+	quality: number | undefined
+}
+
+/**
+ * The width, height and format of a source image, along with the size and modification time they were read for
+ */
+type ImageMetadata = {
+	size: number
+	mtimeMs: number
+	width: number
+	height: number
+	format: string
+}
+
+/**
+ * The default widths to generate image variants at
+ */
+const defaultImageWidths = [320, 640, 960, 1280, 1920]
+
+/**
+ * Resources that are prepared before rendering, and used by {@link RenderContext}s
+ */
+type RenderResources = {
+	/**
+	 * The fingerprinted static files, keyed by their original paths
+	 */
+	assets: Map<string, StaticAsset>
+
+	/**
+	 * The bundled client entries, keyed by their names
+	 */
+	clientBundles: Map<string, ClientBundle>
+
+	/**
+	 * The image variants referenced by rendered pages, keyed by the paths they are served at
+	 */
+	images: Map<string, ImageVariant>
+}
+
+/**
+ * A post-processor for HTML route results.
+ * Post-processors run in the order they were added with {@link SiteGenerator.addPostProcessor}, in both builds and the development server.
+ */
+export type HtmlPostProcessor = {
+	/**
+	 * The post-processor's name, used in error messages
+	 */
+	name: string
+
+	/**
+	 * Processes a page's HTML
+	 * @param html The page's HTML
+	 * @param ctx The {@link RenderContext} the page was rendered with
+	 * @returns The processed HTML
+	 */
+	process(html: string, ctx: RenderContext): string | Promise<string>
+
+	/**
+	 * Returns whether the post-processor should run for a page.
+	 * If omitted, it runs for all pages.
+	 * @param ctx The {@link RenderContext} the page was rendered with
+	 * @returns Whether the post-processor should run
+	 */
+	appliesTo?(ctx: RenderContext): boolean
+}
+
+/**
+ * Options for built-in {@link HtmlPostProcessor}s
+ */
+export type HtmlPostProcessorOptions = {
+	/**
+	 * Returns whether the post-processor should run for a page (defaults to running for all pages)
+	 */
+	appliesTo?: (ctx: RenderContext) => boolean
+}
+
+/**
+ * Creates an {@link HtmlPostProcessor} that inserts `<!DOCTYPE html>` at the start of pages that do not have a doctype
+ * @param options Options for the post-processor
+ * @returns The post-processor
+ */
+export function doctypePostProcessor(options: HtmlPostProcessorOptions = {}): HtmlPostProcessor {
+	return {
+		name: 'doctype',
+		process(html) {
+			if (/^\s*<!doctype/i.test(html)) {
+				return html
+			}
+
+			return '<!DOCTYPE html>' + html
+		},
+		appliesTo: options.appliesTo,
+	}
+}
+
+/**
+ * Elements whose contents must not be minified
+ */
+const minifyPreservedElements = ['pre', 'textarea', 'script', 'style']
+
+/**
+ * Minifies a single tag's attributes, collapsing whitespace, dropping empty values of attributes and removing quotes where they are not needed
+ * @param tag The tag, such as `<input type="checkbox" checked="">`
+ * @returns The minified tag
+ */
+function minifyTag(tag: string): string {
+	const match = /^<([a-zA-Z][^\s/>]*)([\s\S]*?)(\/?)>$/.exec(tag)
+	if (match === null) {
+		return tag
+	}
+
+	const [, name, attrsStr, selfClosing] = match
+	const attrs: string[] = []
+	for (const attr of attrsStr.matchAll(/([^\s"'=<>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g)) {
+		const [, attrName, doubleQuoted, singleQuoted, unquoted] = attr
+		const value = doubleQuoted ?? singleQuoted ?? unquoted
+
+		if (value === undefined || value === '') {
+			attrs.push(attrName)
+		} else if (/^[^\s"'=<>`]+$/.test(value)) {
+			attrs.push(`${attrName}=${value}`)
+		} else if (doubleQuoted !== undefined) {
+			attrs.push(`${attrName}="${value}"`)
+		} else {
+			attrs.push(`${attrName}='${value}'`)
+		}
+	}
+
+	let res = '<' + name
+	for (const attr of attrs) {
+		res += ' ' + attr
+	}
+
+	// A slash directly after an unquoted value would become part of the value
+	if (selfClosing !== '') {
+		res += ' /'
+	}
+
+	return res + '>'
+}
+
+/**
+ * Minifies HTML by removing comments, collapsing whitespace and minifying attributes.
+ * The contents of `<pre>`, `<textarea>`, `<script>` and `<style>` elements are left untouched.
+ * Whitespace between tags is collapsed to a single space rather than removed, since it can affect how inline elements are rendered.
+ * @param html The HTML to minify
+ * @returns The minified HTML
+ */
+export function minifyHtml(html: string): string {
+	// Quoted attribute values can contain `>`, so they are matched as a whole
+	const tokenPattern = /<!--[\s\S]*?-->|<\/[a-zA-Z][^>]*>|<[a-zA-Z](?:[^>"']|"[^"]*"|'[^']*')*>|<![^>]*>/g
+
+	let res = ''
+	let lastIdx = 0
+	for (let match = tokenPattern.exec(html); match !== null; match = tokenPattern.exec(html)) {
+		// Whitespace is only collapsed in text, never inside tags, where it can be part of attribute values
+		res += html.substring(lastIdx, match.index).replace(/\s+/g, ' ')
+		lastIdx = tokenPattern.lastIndex
+
+		const token = match[0]
+		if (token.startsWith('<!--')) {
+			// Conditional comments are kept, since they affect rendering
+			if (token.startsWith('<!--[if')) {
+				res += token
+			}
+			continue
+		} else if (token.startsWith('</')) {
+			res += token.replace(/\s+/g, '')
+			continue
+		} else if (token.startsWith('<!')) {
+			res += token.replace(/\s+/g, ' ')
+			continue
+		}
+
+		res += minifyTag(token)
+
+		const name = /^<([a-zA-Z][^\s/>]*)/.exec(token)?.[1].toLowerCase() as string
+		if (minifyPreservedElements.includes(name) && !token.endsWith('/>')) {
+			// The contents are copied up to the closing tag, which is then matched as usual
+			const end = html.toLowerCase().indexOf(`</${name}`, lastIdx)
+			const contentEnd = end === -1 ? html.length : end
+			res += html.substring(lastIdx, contentEnd)
+			lastIdx = tokenPattern.lastIndex = contentEnd
+		}
+	}
+	res += html.substring(lastIdx).replace(/\s+/g, ' ')
+
+	return res.trim()
+}
+
+/**
+ * Creates an {@link HtmlPostProcessor} that minifies pages with {@link minifyHtml}
+ * @param options Options for the post-processor
+ * @returns The post-processor
+ */
+export function minifyPostProcessor(options: HtmlPostProcessorOptions = {}): HtmlPostProcessor {
+	return {
+		name: 'minify',
+		process: minifyHtml,
+		appliesTo: options.appliesTo,
+	}
+}
+
+/**
+ * Creates an {@link HtmlPostProcessor} that transforms pages with Bun's {@link HTMLRewriter}.
+ *
+ * For example, to add `rel="noopener"` to external links:
+ * ```ts
+ * rewriterPostProcessor('noopener', rewriter => rewriter.on('a[href^="http"]', {
+ *     element(el) {
+ *         el.setAttribute('rel', 'noopener')
+ *     },
+ * }))
+ * ```
+ *
+ * @param name The post-processor's name
+ * @param configure A function that registers handlers on the {@link HTMLRewriter} for a page
+ * @param options Options for the post-processor
+ * @returns The post-processor
+ */
+export function rewriterPostProcessor(
+	name: string,
+	configure: (rewriter: HTMLRewriter, ctx: RenderContext) => HTMLRewriter,
+	options: HtmlPostProcessorOptions = {},
+): HtmlPostProcessor {
+	return {
+		name,
+		async process(html, ctx) {
+			return await configure(new HTMLRewriter(), ctx).transform(new Response(html)).text()
+		},
+		appliesTo: options.appliesTo,
+	}
+}
+
+/**
+ * Options for {@link SiteGenerator.build}
+ */
+export type BuildOptions = {
+	/**
+	 * The maximum number of routes to render and static files to copy at once (defaults to 8)
+	 */
+	concurrency?: number
+
+	/**
+	 * Whether to use the build manifest in the output directory to skip writing files that have not changed (defaults to true).
+	 * The manifest is always discarded when the output directory is cleared.
+	 */
+	incremental?: boolean
+
+	/**
+	 * Whether to delete files from previous builds that no longer map to any route or static file (defaults to false).
+	 * If false, they will only be reported.
+	 * Only files recorded in the build manifest are considered, so this requires {@link incremental} to be enabled.
+	 */
+	prune?: boolean
+
+	/**
+	 * Whether to check internal links in the emitted HTML files after rendering (defaults to false).
+	 * Broken links are reported, and returned in {@link BuildResult.brokenLinks}.
+	 */
+	checkLinks?: boolean
+
+	/**
+	 * Configuration files for static hosts to write to the output directory (defaults to none):
+	 *  - `redirects` - A `_redirects` file with all redirects, for Netlify and Cloudflare Pages
+	 *  - `headers` - A `_headers` file with the headers and content types set by routes, for Netlify and Cloudflare Pages
+	 *  - `nginx` - A `_nginx.conf` snippet with `location` blocks for all redirects and headers, to be included in an nginx `server` block
+	 *
+	 * Redirects are always written as HTML pages that redirect with a `<meta http-equiv="refresh">` tag, regardless of this option.
+	 */
+	hostFiles?: ('redirects' | 'headers' | 'nginx')[]
+
+	/**
+	 * The path of a JSON file to write a {@link BuildReport} to, or undefined to not write one (defaults to undefined).
+	 * The path is relative to the working directory, not the output directory.
+	 */
+	reportFile?: string
+
+	/**
+	 * Whether to write gzip and brotli variants of text output files (HTML, CSS, JavaScript, SVG, JSON and XML), or the {@link CompressionOptions} to write them with (defaults to false).
+	 * Files smaller than the threshold, and files that compression does not make smaller, are skipped.
+	 */
+	compress?: boolean | CompressionOptions
+
+	/**
+	 * Whether to finish the build when routes fail to render, writing all pages that rendered successfully (defaults to false).
+	 * Either way, all routes are rendered so that every failure is reported.
+	 * If false, the build throws an {@link AggregateError} with the failures after rendering, without writing redirects, host configuration files or the build manifest.
+	 * If true, the failures are returned in {@link BuildResult.failures}.
+	 */
+	continueOnError?: boolean
+}
+
+/**
+ * A link to a path inside the site that does not resolve to any route or static file
+ */
+export type BrokenLink = {
+	/**
+	 * The output file of the page that contains the link, relative to the output directory
+	 */
+	page: string
+
+	/**
+	 * The attribute that contains the link (`href`, `src` or `srcset`)
+	 */
+	attribute: string
+
+	/**
+	 * The link, as it appears in the attribute
+	 */
+	url: string
+}
+
+/**
+ * A page that failed to render during a build
+ */
+export type BuildFailure = {
+	/**
+	 * The page's route
+	 */
+	route: string
+
+	/**
+	 * The page's concrete path
+	 */
+	path: string
+
+	/**
+	 * The error the page failed with
+	 */
+	error: unknown
+}
+
+/**
+ * An output path that is written by both a route (or redirect) and a static file.
+ * The route's output takes precedence, and the static file is not copied.
+ */
+export type OutputConflict = {
+	/**
+	 * The output file path, relative to the output directory
+	 */
+	outFile: string
+
+	/**
+	 * The route or redirect that writes the output file, or the route of the earlier static mapping that writes it
+	 */
+	route: string
+
+	/**
+	 * The path of the static file that would write the output file
+	 */
+	sourceFile: string
+
+	/**
+	 * The route of the static mapping that the static file belongs to
+	 */
+	staticRoute: string
+}
+
+/**
+ * Statistics about a page rendered by {@link SiteGenerator.build}
+ */
+export type PageReport = {
+	/**
+	 * The page's route
+	 */
+	route: string
+
+	/**
+	 * The page's concrete path
+	 */
+	path: string
+
+	/**
+	 * The page's output file path, relative to the output directory
+	 */
+	outFile: string
+
+	/**
+	 * The time it took to render, post-process and write the page, in milliseconds
+	 */
+	renderTimeMs: number
+
+	/**
+	 * The size of the page's output, in bytes
+	 */
+	size: number
+}
+
+/**
+ * A report of a build, which can be written to a JSON file with {@link BuildOptions.reportFile}
+ */
+export type BuildReport = {
+	/**
+	 * The time the build finished, as an ISO 8601 string
+	 */
+	date: string
+
+	/**
+	 * The time the whole build took, in milliseconds
+	 */
+	durationMs: number
+
+	/**
+	 * Statistics about every rendered page, in the order they finished rendering
+	 */
+	pages: PageReport[]
+
+	/**
+	 * The static files that were not copied because routes write the same output files
+	 */
+	conflicts: OutputConflict[]
+}
+
+/**
+ * The result of {@link SiteGenerator.build}
+ */
+export type BuildResult = {
+	/**
+	 * The broken links found by the link checker.
+	 * This is always empty if {@link BuildOptions.checkLinks} is not enabled.
+	 */
+	brokenLinks: BrokenLink[]
+
+	/**
+	 * The {@link BuildReport}
+	 */
+	report: BuildReport
+
+	/**
+	 * The pages that failed to render.
+	 * This is always empty if {@link BuildOptions.continueOnError} is not enabled, since the build throws if any pages fail.
+	 */
+	failures: BuildFailure[]
+}
+
+/**
+ * A page rendered in memory by {@link SiteGenerator.renderPages}
+ */
+export type RenderedPage = {
+	/**
+	 * The route that rendered the page
+	 */
+	route: string
+
+	/**
+	 * The concrete path of the page
+	 */
+	path: string
+
+	/**
+	 * The output file path the page would be written to by {@link SiteGenerator.build}, relative to the output directory
+	 */
+	outFile: string
+
+	/**
+	 * The page's content type
+	 */
+	contentType: string
+
+	/**
+	 * The headers the page would be written to host configuration files with, including the content type if it was set explicitly
+	 */
+	headers: Record<string, string>
+
+	/**
+	 * The page's contents, as a string for HTML and other text content types, or as bytes otherwise
+	 */
+	body: string | Uint8Array
+}
+
+/**
+ * Information about a registered route, returned by {@link SiteGenerator.inspect}
+ */
+export type RouteInfo = {
+	/**
+	 * The route
+	 */
+	route: string
+
+	/**
+	 * Whether the renderer was provided directly (`inline`), or is a module path (`module`)
+	 */
+	kind: 'inline' | 'module'
+
+	/**
+	 * The module path, if the renderer is a module path
+	 */
+	modulePath: string | null
+
+	/**
+	 * The route's concrete paths and their output file paths, relative to the output directory
+	 */
+	outputs: { path: string, outFile: string }[]
+}
+
+/**
+ * Information about a static mapping, returned by {@link SiteGenerator.inspect}
+ */
+export type StaticMappingInfo = {
+	/**
+	 * The route the files are served from
+	 */
+	route: string
+
+	/**
+	 * The directory the files are sourced from
+	 */
+	dir: string
+
+	/**
+	 * The number of files in the directory
+	 */
+	fileCount: number
+}
+
+/**
+ * Information about what a site consists of, returned by {@link SiteGenerator.inspect}
+ */
+export type SiteInfo = {
+	/**
+	 * All registered routes
+	 */
+	routes: RouteInfo[]
+
+	/**
+	 * All static mappings
+	 */
+	staticMappings: StaticMappingInfo[]
+
+	/**
+	 * Output paths that are written by both a route and a static file
+	 */
+	conflicts: OutputConflict[]
+}
+
+/**
+ * A route's output after rendering, which plugins can modify with {@link Plugin.afterRender}
+ */
+export type RouteOutput = {
+	/**
+	 * The output's body, as a string, or as bytes if the renderer returned binary data or a stream
+	 */
+	body: string | Uint8Array
+
+	/**
+	 * The output's content type
+	 */
+	contentType: string
+
+	/**
+	 * Additional response headers
+	 */
+	headers: Record<string, string>
+
+	/**
+	 * The response status (only used by the development server)
+	 */
+	status: number | undefined
+}
+
+/**
+ * Information about a build, passed to the build hooks of {@link Plugin}s
+ */
+export type BuildHookContext = {
+	/**
+	 * The directory the site is being built in
+	 */
+	outDir: string
+
+	/**
+	 * The options the build was started with
+	 */
+	options: BuildOptions
+}
+
+/**
+ * A plugin, registered with {@link SiteGenerator.use}.
+ * All hooks are optional, and hooks of multiple plugins run in the order the plugins were registered.
+ * Render hooks run in both builds and the development server.
+ */
+export type Plugin = {
+	/**
+	 * The plugin's name, used in error messages
+	 */
+	name: string
+
+	/**
+	 * Called when the plugin is registered, which is where it can contribute routes, static mappings and post-processors
+	 * @param ssg The {@link SiteGenerator} the plugin is registered with
+	 */
+	setup?(ssg: SiteGenerator): void
+
+	/**
+	 * Called before a build starts, before the output directory is cleared
+	 * @param ctx The {@link BuildHookContext}
+	 */
+	beforeBuild?(ctx: BuildHookContext): void | Promise<void>
+
+	/**
+	 * Called after static files were copied to the output directory, before any routes are rendered
+	 * @param ctx The {@link BuildHookContext}
+	 */
+	afterStaticCopy?(ctx: BuildHookContext): void | Promise<void>
+
+	/**
+	 * Called before a route is rendered.
+	 * If it returns a {@link RenderResult}, that result is used and the route's renderer is not called.
+	 *
+	 * @param ctx The {@link RenderContext} the route will be rendered with
+	 * @returns A {@link RenderResult} to use instead of rendering the route, or undefined to render it normally
+	 */
+	beforeRender?(ctx: RenderContext): RenderResult | undefined | Promise<RenderResult | undefined>
+
+	/**
+	 * Called after a route was rendered and post-processed, with its output.
+	 * Outputs are buffered instead of being streamed if any plugin has this hook.
+	 *
+	 * @param output The route's {@link RouteOutput}
+	 * @param ctx The {@link RenderContext} the route was rendered with
+	 * @returns The modified output, or undefined to keep it as-is (it may also be modified in place)
+	 */
+	afterRender?(output: RouteOutput, ctx: RenderContext): RouteOutput | undefined | Promise<RouteOutput | undefined>
+
+	/**
+	 * Called after a build finished successfully
+	 * @param ctx The {@link BuildHookContext}, along with the {@link BuildResult}
+	 */
+	afterBuild?(ctx: BuildHookContext & { result: BuildResult }): void | Promise<void>
+
+	/**
+	 * Development server middleware, which is called for every request before it is handled.
+	 * It can respond by itself, or call `next` to handle the request normally (and modify the response).
+	 *
+	 * @param req The request
+	 * @param next Handles the request with the next middleware, or the development server itself
+	 * @returns The response
+	 */
+	middleware?(req: Request, next: () => Promise<Response>): Response | Promise<Response>
+
+	/**
+	 * CLI commands contributed by the plugin, which are registered with {@link SiteGenerator.addCommand}
+	 */
+	commands?: CliCommand[]
+}
+
+/**
+ * The version of the build manifest format.
+ * Manifests with a different version are ignored.
+ */
+const manifestVersion = 1
+
+/**
+ * A build manifest entry for an output file
+ */
+type BuildManifestEntry = {
+	/**
+	 * The SHA-256 hash of the file's contents
+	 */
+	hash: string
+
+	/**
+	 * The size and modification time of the source file, if the output was copied from a static file
+	 */
+	source?: { size: number, mtimeMs: number }
+
+	/**
+	 * The hash of the original file, if the output is a pre-compressed variant of it
+	 */
+	compressedFrom?: string
+
+	/**
+	 * The target of the output, if it is a symbolic link copied from a static mapping
+	 */
+	link?: string
+}
+
+/**
+ * A build manifest, which records the output files of a build
+ */
+type BuildManifest = {
+	version: number
+	files: Record<string, BuildManifestEntry>
+}
+
+/**
+ * How trailing slashes in paths are handled, both for the files written by {@link SiteGenerator.build} and the URLs served by the development server:
+ * - `preserve`: Paths are used as they are. Paths ending with a slash are written as directory indexes (`/about/` becomes `/about/index.html`), and other paths are written as files with the same name.
+ * - `always`: Canonical paths end with a slash, and are written as directory indexes (`/about` becomes `/about/index.html`).
+ * - `never`: Canonical paths do not end with a slash, and are written as `.html` files (`/about/` becomes `/about.html`).
+ *
+ * Paths with a file extension, such as `/feed.xml`, and the root path are not affected.
+ * The development server redirects requests for non-canonical paths to their canonical paths unless the policy is `preserve`.
+ */
+export type TrailingSlashPolicy = 'preserve' | 'always' | 'never'
+
+/**
+ * The state of a build, shared by the steps that write output files
+ */
+type BuildState = {
+	/**
+	 * The directory the site is being built in
+	 */
+	outDir: string
+
+	/**
+	 * The manifest of the previous build
+	 */
+	oldManifest: BuildManifest
+
+	/**
+	 * The manifest being written by this build
+	 */
+	newManifest: BuildManifest
+}
+
+/**
+ * A concrete path to render, along with its route
+ */
+type Page = {
+	route: string
+	renderer: Renderer
+	path: string
+	params: RouteParams
+}
+
+/**
+ * A file served by a static mapping
+ */
+type StaticFileMatch = {
+	/**
+	 * The static mapping's route
+	 */
+	route: string
+
+	/**
+	 * The file's path relative to the mapping's directory, without a leading slash
+	 */
+	file: string
+
+	/**
+	 * The path of the source file
+	 */
+	sourceFile: string
+}
+
+/**
+ * A {@link RenderResult} separated into its body and response metadata
+ */
+type UnwrappedRenderResult = {
+	body: ResponseBody | JSX.Element
+	contentType: string
+	headers: Record<string, string>
+	status: number | undefined
+}
+
+/**
+ * A route matched from a concrete path
+ */
+type RouteMatch = {
+	route: string
+	renderer: Renderer
+	path: string
+	params: RouteParams
+}
+
+/**
+ * The main site class generator class.
+ * To use it, instantiate it and then use the {@link setRoute} and {@link mapStatic} methods to set routes and static file mappings.
+ *
+ * To render the site to a directory, use the {@link build} method.
+ * To serve the site live, use the {@link serve} method.
+ *
+ * To act as a CLI, use the {@link cli} method.
+ */
+export class SiteGenerator {
+	/**
+	 * A map of routes and their corresponding renderers.
+	 * It's recommended to use {@link setRoute} rather than manipulating this object directly.
+	 */
+	public readonly routes = new Map<string, Renderer>()
+
+	/**
+	 * A map of dynamic routes and their corresponding {@link PathsProvider}s.
+	 * Every dynamic route in {@link routes} must have an entry here.
+	 * It's recommended to use {@link setRoute} rather than manipulating this object directly.
+	 */
+	public readonly pathsProviders = new Map<string, PathsProvider>()
+
+	/**
+	 * A map of routes and their sitemap options.
+	 * It's recommended to use {@link setSitemapOptions} rather than manipulating this object directly.
+	 */
+	public readonly sitemapOptions = new Map<string, SitemapOptions>()
+
+	/**
+	 * A map of collection routes and their corresponding {@link ContentCollection}s.
+	 * It's recommended to use {@link setCollection} rather than manipulating this object directly.
+	 */
+	public readonly collections = new Map<string, ContentCollection<any>>()
+
+	/**
+	 * A map of client entry names and the paths of their entrypoint files.
+	 * It's recommended to use {@link setClientEntry} rather than manipulating this object directly.
+	 */
+	public readonly clientEntries = new Map<string, string>()
+
+	/**
+	 * The {@link HtmlPostProcessor}s that HTML route results are passed through, in order.
+	 * It's recommended to use {@link addPostProcessor} rather than manipulating this array directly.
+	 */
+	public readonly postProcessors: HtmlPostProcessor[] = []
+
+	/**
+	 * A map of paths and the redirects from them.
+	 * It's recommended to use {@link setRedirect} rather than manipulating this object directly.
+	 */
+	public readonly redirects = new Map<string, Redirect>()
+
+	/**
+	 * A map of routes and routes where static resources will be served and the directories from which the static resources will be sourced.
+	 * It's recommended to use {@link mapStatic} rather than manipulating this object directory.
+	 */
+	public readonly staticMappings = new Map<string, string>()
+
+	/**
+	 * A map of static mapping routes and their options.
+	 * Mappings without an entry use the default options.
+	 * It's recommended to use {@link mapStatic} rather than manipulating this object directly.
+	 */
+	public readonly staticMappingOptions = new Map<string, StaticMappingOptions>()
+
+	/**
+	 * A map of localized routes and the routes they were expanded into, keyed by locale.
+	 * It's recommended to use {@link setLocalizedRoute} rather than manipulating this object directly.
+	 */
+	public readonly localizedRoutes = new Map<string, Map<string, string>>()
+
+	/**
+	 * The registered {@link Plugin}s, in order.
+	 * It's recommended to use {@link use} rather than manipulating this array directly.
+	 */
+	public readonly plugins: Plugin[] = []
+
+	/**
+	 * The CLI commands run by {@link cli}, keyed by name, including the built-in `build`, `serve`, `routes` and `help` commands.
+	 * It's recommended to use {@link addCommand} rather than manipulating this object directly.
+	 */
+	public readonly commands = new Map<string, CliCommand>()
+
+	/**
+	 * The filename to use for index files (defaults to 'index.html').
+	 * You may also use {@link setIndexFilename} fluently.
+	 */
+	public indexFilename = 'index.html'
+
+	/**
+	 * The filename to use for the not found page (defaults to '404.html')
+	 * You may also use {@link setNotFoundFilename} fluently.
+	 */
+	public notFoundFilename = '404.html'
+
+	/**
+	 * The site's base URL, such as `https://example.com`, or null if it is not known (defaults to null).
+	 * It is exposed to renderers as {@link RenderContext.siteUrl}.
+	 * You may also use {@link setSiteUrl} fluently.
+	 */
+	public siteUrl: string | null = null
+
+	/**
+	 * Whether entries declared with {@link useHead} (or {@link Seo}) are injected into the `<head>` of pages (defaults to false).
+	 * This is set by {@link enableHeadManagement}.
+	 */
+	public headManagement = false
+
+	/**
+	 * The base path the site is served under, such as `/docs/` for a site deployed to `https://example.com/docs/` (defaults to '/').
+	 * The development server mounts the site under it, and links and asset URLs generated with {@link RenderContext} are prefixed with it.
+	 * Built files are still written relative to the root of the output directory.
+	 * You may also use {@link setBasePath} fluently.
+	 */
+	public basePath = '/'
+
+	/**
+	 * The {@link TrailingSlashPolicy} to use (defaults to 'preserve').
+	 * You may also use {@link setTrailingSlash} fluently.
+	 */
+	public trailingSlash: TrailingSlashPolicy = 'preserve'
+
+	/**
+	 * The internationalization options, or null if the site is not localized (defaults to null).
+	 * You may also use {@link setI18n} fluently.
+	 */
+	public i18n: I18nOptions | null = null
+
+	/**
+	 * The filename of the build manifest written to the output directory by {@link build} (defaults to '.ssg-manifest.json').
+	 * You may also use {@link setManifestFilename} fluently.
+	 */
+	public manifestFilename = '.ssg-manifest.json'
+
+	/**
+	 * The filename of the asset manifest written to the output directory by {@link build} when any static mapping has fingerprinting enabled (defaults to 'asset-manifest.json').
+	 * It maps the paths of static files to their fingerprinted paths.
+	 * You may also use {@link setAssetManifestFilename} fluently.
+	 */
+	public assetManifestFilename = 'asset-manifest.json'
+
+	/**
+	 * The route that bundled client entries are served from (defaults to '/_client/').
+	 * You may also use {@link setClientBundleRoute} fluently.
+	 */
+	public clientBundleRoute = '/_client/'
+
+	/**
+	 * The options used for bundling client entries.
+	 * You may also use {@link setClientBundleOptions} fluently.
+	 */
+	public clientBundleOptions: ClientBundleOptions = {}
+
+	/**
+	 * The route that image variants generated by {@link RenderContext.image} are served from (defaults to '/_image/').
+	 * You may also use {@link setImageRoute} fluently.
+	 */
+	public imageRoute = '/_image/'
+
+	/**
+	 * The directory that image variants are cached in between builds (defaults to 'node_modules/.cache/simple-jsx-ssg/images').
+	 * You may also use {@link setImageCacheDir} fluently.
+	 */
+	public imageCacheDir = 'node_modules/.cache/simple-jsx-ssg/images'
+
+	/**
+	 * Whether the development server should inject the live reload client into HTML pages.
+	 * This is set by {@link serve}.
+	 */
+	private liveReload = false
+
+	/**
+	 * The route of the sitemap, or null if it is not enabled.
+	 * This is set by {@link enableSitemap}.
+	 */
+	private sitemapRoute: string | null = null
+
+	/**
+	 * Hashes of fingerprinted static files, along with the size and modification time they were calculated for
+	 */
+	private readonly assetHashCache = new Map<string, { size: number, mtimeMs: number, hash: string }>()
+
+	/**
+	 * Client bundles that were built for the development server, keyed by client entry name.
+	 * Entries are removed when a file in their entrypoint's directory changes.
+	 */
+	private readonly devClientBundleCache = new Map<string, Promise<ClientBundle>>()
+
+	/**
+	 * Watchers for the directories of client entries that have been bundled for the development server
+	 */
+	private readonly devClientBundleWatchers = new Map<string, FSWatcher>()
+
+	/**
+	 * Image variants that have been referenced by rendered pages, keyed by the paths they are served at
+	 */
+	private readonly imageVariants = new Map<string, ImageVariant>()
+
+	/**
+	 * Metadata of source images, keyed by their paths
+	 */
+	private readonly imageMetadataCache = new Map<string, ImageMetadata>()
+
+	/**
+	 * Pending and finished generations of image variants, keyed by the paths of their cache files
+	 */
+	private readonly imageVariantJobs = new Map<string, Promise<string>>()
+
+	constructor() {
+		this.addBuiltInCommands()
+	}
+
+	/**
+	 * Processes a render result's body into a {@link ResponseBody}
+	 * @param renderResult The body to process
+	 * @param ctx The {@link RenderContext} it was rendered with
+	 * @returns  The resulting {@link ResponseBody}
+	 */
+	private async toResponseBody(
+		renderResult: ResponseBody | JSX.Element,
+		ctx: RenderContext,
+	): Promise<ResponseBody> {
+		// Based on object signature, determine whether this is a JSX.Element object
 		if (isObjectJsxElement(renderResult)) {
-			return await renderToReadableStream(renderResult)
+			return await renderToHtmlStream(renderResult, { head: this.headManagement, canonicalUrl: ctx.canonicalUrl })
+		} else {
+			return renderResult as ResponseBody
+		}
+	}
+
+	/**
+	 * Finds the renderer for a concrete path, trying exact routes first and then dynamic routes.
+	 * A dynamic route only matches if its {@link PathsProvider} enumerates the matched params, so that serving behaves the same as building.
+	 * @param path The concrete path
+	 * @returns The matching route, its renderer, the concrete path and its params, or null if no route matches
+	 */
+	private async matchRoute(path: string): Promise<RouteMatch | null> {
+		const renderer = this.routes.get(path)
+		if (renderer !== undefined && !isDynamicRoute(path)) {
+			return { route: path, renderer, path, params: {} }
+		}
+
+		for (const [route, renderer] of this.routes) {
+			if (!isDynamicRoute(route)) {
+				continue
+			}
+
+			const params = matchRoute(route, path)
+			if (params === null) {
+				continue
+			}
+
+			const names = Object.keys(params)
+			for (const concrete of await this.getConcretePaths(route)) {
+				if (names.every(name => concrete.params[name] === params[name])) {
+					return { route, renderer, path: concrete.path, params: concrete.params }
+				}
+			}
+		}
+
+		return null
+	}
+
+	/**
+	 * Returns all concrete paths for a route, along with their params.
+	 * Static routes have a single path, which is the route itself, while dynamic routes are enumerated with their {@link PathsProvider}.
+	 * @param route The route
+	 * @returns The route's concrete paths and their params
+	 */
+	private async getConcretePaths(route: string): Promise<{ path: string, params: RouteParams }[]> {
+		if (!isDynamicRoute(route)) {
+			return [{ path: route, params: {} }]
+		}
+
+		const provider = this.pathsProviders.get(route)
+		if (provider === undefined) {
+			throw new Error(`Dynamic route ${route} has no paths provider`)
+		}
+
+		return (await provider()).map(params => ({ path: fillRoute(route, params), params }))
+	}
+
+	/**
+	 * Returns the path of the output file for a concrete path, relative to the output directory
+	 * @param path The concrete path
+	 * @returns The output file path
+	 */
+	private getOutFile(path: string): string {
+		if (this.trailingSlash === 'preserve' || !this.isPagePath(path)) {
+			return path.endsWith('/') ? path + this.indexFilename : path
+		}
+
+		return this.trailingSlash === 'always'
+			? (path.endsWith('/') ? path : path + '/') + this.indexFilename
+			: path.substring(0, path.length - (path.endsWith('/') ? 1 : 0)) + '.html'
+	}
+
+	/**
+	 * Returns whether a concrete path is affected by the {@link TrailingSlashPolicy}, which is the case if it is not the root path and has no file extension
+	 * @param path The concrete path
+	 * @returns Whether the path is affected
+	 */
+	private isPagePath(path: string): boolean {
+		return path !== '/' && (path.endsWith('/') || extname(path) === '')
+	}
+
+	/**
+	 * Returns the canonical form of a concrete path according to the {@link TrailingSlashPolicy}
+	 * @param path The concrete path
+	 * @returns The canonical path
+	 */
+	private getCanonicalPath(path: string): string {
+		if (this.trailingSlash === 'preserve' || !this.isPagePath(path)) {
+			return path
+		}
+
+		if (this.trailingSlash === 'always') {
+			return path.endsWith('/') ? path : path + '/'
+		} else {
+			return path.endsWith('/') ? path.substring(0, path.length - 1) : path
+		}
+	}
+
+	/**
+	 * Finds the localized route that a route was expanded from
+	 * @param route The route
+	 * @returns The localized route and the locale of the route, or null if the route is not localized
+	 */
+	private getLocalization(route: string): { route: string, locale: string } | null {
+		for (const [localizedRoute, variants] of this.localizedRoutes) {
+			for (const [locale, variant] of variants) {
+				if (variant === route) {
+					return { route: localizedRoute, locale }
+				}
+			}
+		}
+
+		return null
+	}
+
+	/**
+	 * Finds where to redirect a development server request to, based on the preferred locale in its `Accept-Language` header.
+	 * Paths without a locale prefix that only exist with one are redirected to the preferred locale, or the default locale if none are acceptable.
+	 * If the default locale is served at the root, only the root path is redirected, so that pages in the default locale remain reachable.
+	 *
+	 * @param path The requested path
+	 * @param match The route that matched the requested path, if any
+	 * @param acceptLanguage The request's `Accept-Language` header
+	 * @returns The path to redirect to, or null if the request should not be redirected
+	 */
+	private async getLocaleRedirect(path: string, match: RouteMatch | null, acceptLanguage: string | null): Promise<string | null> {
+		if (this.i18n === null) {
+			return null
+		}
+
+		const { locales, defaultLocale } = this.i18n
+		const locale = negotiateLocale(acceptLanguage ?? '', locales) ?? defaultLocale
+
+		let target: RouteMatch | null = null
+		if (match === null) {
+			if (locales.includes(path.split('/')[1])) {
+				return null
+			}
+
+			const prefixed = '/' + locale + path
+			target = await this.matchRoute(prefixed) ?? await this.matchRoute(prefixed + '/')
+		} else if (match.path === '/' && locale !== defaultLocale && this.getLocalization(match.route)?.locale === defaultLocale) {
+			target = await this.matchRoute(this.localizedRoutes.get('/')?.get(locale) as string)
+		}
+
+		return target === null ? null : encodePath(this.withBasePath(this.getCanonicalPath(target.path)))
+	}
+
+	/**
+	 * Returns the URL path a page is served at, which is its canonical path with the {@link basePath}, percent-encoded and without an index filename
+	 * @param path The page's concrete path
+	 * @returns The URL path
+	 */
+	private getPageUrlPath(path: string): string {
+		let urlPath = this.getCanonicalPath(path)
+		if (urlPath.endsWith('/' + this.indexFilename)) {
+			urlPath = urlPath.substring(0, urlPath.length - this.indexFilename.length)
+		}
+
+		return encodePath(this.withBasePath(urlPath))
+	}
+
+	/**
+	 * Prefixes a path with the {@link basePath}
+	 * @param path The path, which must start with a slash
+	 * @returns The prefixed path
+	 */
+	private withBasePath(path: string): string {
+		return this.basePath + path.substring(1)
+	}
+
+	/**
+	 * Prefixes a redirect target with the {@link basePath} if it is a path rather than a URL
+	 * @param to The redirect target
+	 * @returns The resolved redirect target
+	 */
+	private resolveRedirectTarget(to: string): string {
+		return to.startsWith('/') && !to.startsWith('//') ? this.withBasePath(to) : to
+	}
+
+	/**
+	 * Finds all files in static mappings with fingerprinting enabled and calculates their fingerprinted paths.
+	 * Hashes are cached, and only recalculated for files whose size or modification time changed.
+	 * @returns A map of static file paths and their {@link StaticAsset}s
+	 */
+	private async getAssets(): Promise<Map<string, StaticAsset>> {
+		const assets = new Map<string, StaticAsset>()
+
+		for (const [route, staticDir] of this.staticMappings) {
+			if (!this.staticMappingOptions.get(route)?.fingerprint) {
+				continue
+			}
+
+			for (const { file, sourceFile } of await this.listStaticFiles(route, staticDir)) {
+				const path = joinPaths(route, file)
+				assets.set(path, { url: fingerprintPath(path, await this.getFileHash(sourceFile)), file: sourceFile })
+			}
+		}
+
+		return assets
+	}
+
+	/**
+	 * Finds the static file served at a fingerprinted path, only hashing the file the path could have been derived from
+	 * @param path The decoded request path, such as `/assets/app.3f9a1c2b.css`
+	 * @returns The file, or null if the path is not the current fingerprinted path of a file in a static mapping with fingerprinting enabled
+	 */
+	private async resolveFingerprintedFile(path: string): Promise<StaticFileMatch | null> {
+		const ext = extname(path)
+		const hashMatch = /^(.+)\.[0-9a-f]{8}$/.exec(path.substring(0, path.length - ext.length))
+		if (hashMatch === null) {
+			return null
+		}
+
+		const original = hashMatch[1] + ext
+		const staticFile = await this.resolveStaticFile(original)
+		if (staticFile === null || joinPaths(staticFile.route, staticFile.file) !== original || !this.staticMappingOptions.get(staticFile.route)?.fingerprint) {
+			return null
+		}
+
+		return fingerprintPath(original, await this.getFileHash(staticFile.sourceFile)) === path ? staticFile : null
+	}
+
+	/**
+	 * Returns the hash of a file, reusing the previous hash if the file's size and modification time did not change
+	 * @param path The file's path
+	 * @returns The file's hash
+	 */
+	private async getFileHash(path: string): Promise<string> {
+		const fileStat = await stat(path)
+
+		let cached = this.assetHashCache.get(path)
+		if (cached === undefined || cached.size !== fileStat.size || cached.mtimeMs !== fileStat.mtimeMs) {
+			cached = { size: fileStat.size, mtimeMs: fileStat.mtimeMs, hash: await hashFile(path) }
+			this.assetHashCache.set(path, cached)
+		}
+
+		return cached.hash
+	}
+
+	/**
+	 * Finds where a path inside a static mapping's directory resolves to if it is outside of the directory, which is checked for mappings that reject escaping symbolic links
+	 * @param staticDir The mapping's directory
+	 * @param sourceFile The path inside the directory
+	 * @returns The real path the path resolves to, or null if it is inside the directory
+	 */
+	private async getEscapingSymlinkTarget(staticDir: string, sourceFile: string): Promise<string | null> {
+		const realDir = await realpath(staticDir)
+		const realFile = await realpath(sourceFile)
+
+		return realFile === realDir || realFile.startsWith(realDir + '/') ? null : realFile
+	}
+
+	/**
+	 * Throws if a path inside a static mapping's directory resolves to a file outside of it, see {@link getEscapingSymlinkTarget}
+	 * @param staticDir The mapping's directory
+	 * @param sourceFile The path inside the directory
+	 */
+	private async checkSymlinkContainment(staticDir: string, sourceFile: string): Promise<void> {
+		const target = await this.getEscapingSymlinkTarget(staticDir, sourceFile)
+		if (target !== null) {
+			throw new Error(`Symbolic link ${sourceFile} points outside of static directory ${staticDir} (to ${target})`)
+		}
+	}
+
+	/**
+	 * Lists the files a static mapping serves, applying its {@link StaticMappingOptions}
+	 * @param route The mapping's route
+	 * @param staticDir The mapping's directory
+	 * @returns The files
+	 */
+	private async listStaticFiles(route: string, staticDir: string): Promise<StaticFileMatch[]> {
+		const options = this.staticMappingOptions.get(route) ?? {}
+		const res: StaticFileMatch[] = []
+		const paths = ['']
+
+		while (paths.length > 0) {
+			const path = paths.shift() as string
+
+			for (const name of await readdir(joinPaths(staticDir, path))) {
+				const file = joinPaths(path, name)
+				if (isStaticPathExcluded(file, options)) {
+					continue
+				}
+
+				const sourceFile = joinPaths(staticDir, file)
+				let fileStat = await lstat(sourceFile)
+				if (fileStat.isSymbolicLink()) {
+					// Links are copied as they are, so directories they point to are not crawled
+					if (options.symlinks === 'link') {
+						if (options.include === undefined || matchesGlobs(file, options.include)) {
+							res.push({ route, file, sourceFile })
+						}
+						continue
+					}
+
+					if (options.symlinks === 'reject-escaping') {
+						await this.checkSymlinkContainment(staticDir, sourceFile)
+					}
+					fileStat = await stat(sourceFile)
+				}
+
+				if (fileStat.isDirectory()) {
+					paths.push(file)
+				} else if (options.include === undefined || matchesGlobs(file, options.include)) {
+					res.push({ route, file, sourceFile })
+				}
+			}
+		}
+
+		return res
+	}
+
+	/**
+	 * Finds the file that a static mapping serves at a path, applying the mapping's {@link StaticMappingOptions}.
+	 * Earlier mappings take precedence over later ones.
+	 * Directories are resolved to their index files, and resolved files are guaranteed to be inside the mapped directory (unless a followed symbolic link points outside of it).
+	 * Symbolic links that point outside of the directory are not resolved for mappings that reject them.
+	 *
+	 * @param path The decoded path
+	 * @returns The file, or null if no static mapping serves a file at the path
+	 */
+	private async resolveStaticFile(path: string): Promise<StaticFileMatch | null> {
+		if (path.split('/').includes('..')) {
+			return null
+		}
+
+		for (const [route, staticDir] of this.staticMappings) {
+			// The mapping's root is also served without its trailing slash, so that it can be redirected
+			if (!path.startsWith(route) && path + '/' !== route) {
+				continue
+			}
+
+			const file = path.substring(route.length)
+			const options = this.staticMappingOptions.get(route) ?? {}
+			const candidates = file === '' || file.endsWith('/')
+				? [file + this.indexFilename]
+				: [file, file + '/' + this.indexFilename]
+
+			const root = resolvePath(staticDir)
+			for (const candidate of candidates) {
+				const sourceFile = joinPaths(staticDir, candidate)
+				const resolved = resolvePath(sourceFile)
+				if (!resolved.startsWith(root + pathSeparator) || !isStaticFileIncluded(candidate, options)) {
+					continue
+				}
+
+				let fileStat: Stats
+				try {
+					fileStat = await stat(sourceFile)
+				} catch (err) {
+					if (['ENOENT', 'ENOTDIR'].includes((err as any).code)) {
+						continue
+					}
+					throw err
+				}
+				if (!fileStat.isFile()) {
+					continue
+				}
+
+				if (options.symlinks === 'reject-escaping') {
+					// Builds fail on escaping links, but the development server keeps running and treats them as missing files
+					const target = await this.getEscapingSymlinkTarget(staticDir, sourceFile)
+					if (target !== null) {
+						console.warn(`Not serving symbolic link ${sourceFile}, since it points outside of static directory ${staticDir} (to ${target})`)
+						continue
+					}
+				}
+
+				return { route, file: candidate, sourceFile }
+			}
+		}
+
+		return null
+	}
+
+	/**
+	 * Passes a static file through the {@link StaticTransform}s of its mapping that apply to it
+	 * @param staticFile The file
+	 * @returns The transformed contents, or null if no transforms apply to the file
+	 */
+	private async transformStaticFile({ route, file, sourceFile }: StaticFileMatch): Promise<string | Uint8Array | null> {
+		const info: StaticFileInfo = { path: joinPaths(route, file), sourceFile }
+		const transforms = (this.staticMappingOptions.get(route)?.transforms ?? [])
+			.filter(transform => transform.appliesTo === undefined || transform.appliesTo(info))
+		if (transforms.length === 0) {
+			return null
+		}
+
+		let data: string | Uint8Array = new Uint8Array(await Bun.file(sourceFile).arrayBuffer())
+		for (const transform of transforms) {
+			try {
+				data = await transform.transform(typeof data === 'string' ? new TextEncoder().encode(data) : data, info)
+			} catch (err) {
+				throw new Error(`Static transform "${transform.name}" failed for ${info.path}: ${(err as Error).message}`, { cause: err })
+			}
+		}
+
+		return data
+	}
+
+	/**
+	 * Creates the development server's response for a static file, passing it through the {@link StaticTransform}s that apply to it.
+	 * Responses have validators for conditional requests, and single byte ranges can be requested.
+	 *
+	 * @param req The request
+	 * @param staticFile The file
+	 * @returns The response
+	 */
+	private async createStaticFileResponse(req: Request, staticFile: StaticFileMatch): Promise<Response> {
+		const file = Bun.file(staticFile.sourceFile)
+		const fileStat = await stat(staticFile.sourceFile)
+		const transformed = await this.transformStaticFile(staticFile)
+		const data = typeof transformed === 'string' ? new TextEncoder().encode(transformed) : transformed
+
+		// Transformed files are identified by their contents, since they may change without the source file changing
+		const etag = data === null
+			? `W/"${fileStat.size.toString(16)}-${Math.floor(fileStat.mtimeMs).toString(16)}"`
+			: `"${createHash('sha256').update(data).digest('hex').substring(0, 32)}"`
+		const headers: Record<string, string> = {
+			'Content-Type': file.type,
+			'ETag': etag,
+			'Last-Modified': fileStat.mtime.toUTCString(),
+			'Accept-Ranges': 'bytes',
+			'Cache-Control': 'no-cache',
+		}
+
+		if (isNotModified(req, etag, fileStat.mtime)) {
+			return new Response(null, { status: 304, headers })
+		}
+
+		const size = data === null ? fileStat.size : data.length
+		const rangeHeader = req.headers.get('Range')
+		const ifRange = req.headers.get('If-Range')
+
+		// A range is only applied if the file did not change since the client's copy, if it specified one.
+		// If-Range requires a strong comparison, so the weak ETags of untransformed files never match and the whole file is sent instead.
+		const ifRangeMatches = ifRange === null || (ifRange === etag && !etag.startsWith('W/')) || ifRange === headers['Last-Modified']
+		if (rangeHeader !== null && ifRangeMatches) {
+			const range = parseRangeHeader(rangeHeader, size)
+			if (range === 'unsatisfiable') {
+				return new Response(null, {
+					status: 416,
+					headers: { ...headers, 'Content-Range': `bytes */${size}` },
+				})
+			} else if (range !== null) {
+				const body = data === null ? file.slice(range.start, range.end + 1) : data.slice(range.start, range.end + 1)
+				return new Response(body, {
+					status: 206,
+					headers: { ...headers, 'Content-Range': `bytes ${range.start}-${range.end}/${size}` },
+				})
+			}
+		}
+
+		return new Response(data ?? file, { headers })
+	}
+
+	/**
+	 * Reads the metadata of a source image, reusing the previous metadata if the file's size and modification time did not change.
+	 * The width and height are swapped for images whose EXIF orientation rotates them by 90 degrees.
+	 *
+	 * @param file The image's path
+	 * @returns The image's metadata
+	 */
+	private async getImageMetadata(file: string): Promise<ImageMetadata> {
+		const fileStat = await stat(file)
+
+		let cached = this.imageMetadataCache.get(file)
+		if (cached === undefined || cached.size !== fileStat.size || cached.mtimeMs !== fileStat.mtimeMs) {
+			const metadata = await sharp(file).metadata()
+			if (metadata.width === undefined || metadata.height === undefined) {
+				throw new Error(`Could not read the dimensions of image ${file}`)
+			}
+
+			const rotated = (metadata.orientation ?? 1) >= 5
+			cached = {
+				size: fileStat.size,
+				mtimeMs: fileStat.mtimeMs,
+				width: rotated ? metadata.height : metadata.width,
+				height: rotated ? metadata.width : metadata.height,
+				format: metadata.format ?? '',
+			}
+			this.imageMetadataCache.set(file, cached)
+		}
+
+		return cached
+	}
+
+	/**
+	 * Generates an image variant in {@link imageCacheDir}, unless it was already generated
+	 * @param variant The {@link ImageVariant}
+	 * @returns The path of the variant's file
+	 */
+	private getImageVariantFile(variant: ImageVariant): Promise<string> {
+		const cacheFile = joinPaths(this.imageCacheDir, basename(variant.url))
+
+		let job = this.imageVariantJobs.get(cacheFile)
+		if (job === undefined) {
+			job = (async () => {
+				if (!await exists(cacheFile)) {
+					await mkdir(this.imageCacheDir, { recursive: true })
+
+					// Variants are written to a temporary file first, so that interrupted builds don't leave broken variants in the cache
+					const tempFile = cacheFile + '.tmp'
+					await sharp(variant.file)
+						.rotate()
+						.resize({ width: variant.width })
+						.toFormat(variant.format, variant.quality === undefined ? {} : { quality: variant.quality })
+						.toFile(tempFile)
+					await rename(tempFile, cacheFile)
+				}
+
+				return cacheFile
+			})()
+			job.catch(() => this.imageVariantJobs.delete(cacheFile))
+
+			this.imageVariantJobs.set(cacheFile, job)
+		}
+
+		return job
+	}
+
+	/**
+	 * Creates the `<picture>` element for {@link RenderContext.image}, registering its variants in the {@link RenderResources}
+	 * @param src The path of the image
+	 * @param options The {@link ImageOptions}
+	 * @param resources The {@link RenderResources} to register the variants in
+	 * @returns The `<picture>` element
+	 */
+	private async renderImage(src: string, options: ImageOptions, resources: RenderResources): Promise<JSX.Element> {
+		const staticFile = await this.resolveStaticFile(src)
+		if (staticFile === null) {
+			throw new Error(`Image ${src} is not served by any static mapping`)
+		}
+		const file = staticFile.sourceFile
+
+		const metadata = await this.getImageMetadata(file)
+		const imgProps = {
+			alt: options.alt,
+			className: options.className,
+			loading: options.loading ?? 'lazy',
+			decoding: 'async',
+		} as const
+
+		// Vector images don't need resizing
+		if (metadata.format === 'svg') {
+			return <img src={this.resolveAssetUrl(src, resources)} width={metadata.width} height={metadata.height} {...imgProps} />
+		}
+
+		const fallbackFormat: ImageFormat = metadata.format === 'jpeg' || metadata.format === 'png' || metadata.format === 'webp' ? metadata.format : 'png'
+		const formats = [...new Set([...(options.formats ?? ['avif', 'webp']), fallbackFormat])]
+		const widths = [...new Set(
+			(options.widths ?? defaultImageWidths)
+				.filter(width => width > 0)
+				.map(width => Math.min(Math.round(width), metadata.width)),
+		)].sort((a, b) => a - b)
+		if (widths.length === 0) {
+			throw new Error(`No valid widths were specified for image ${src}`)
+		}
+
+		// Variants are named after the source's content and the quality, so that they can be cached between builds
+		const hash = createHash('sha256').update(`${await this.getFileHash(file)}:${options.quality ?? ''}`).digest('hex').substring(0, 8)
+		const name = basename(src, extname(src))
+
+		const srcsets = new Map<ImageFormat, string[]>()
+		for (const format of formats) {
+			const candidates: string[] = []
+			for (const width of widths) {
+				const url = `${this.imageRoute}${name}.${width}w.${hash}.${format === 'jpeg' ? 'jpg' : format}`
+				const variant: ImageVariant = { url, file, width, format, quality: options.quality }
+				resources.images.set(url, variant)
+				this.imageVariants.set(url, variant)
+
+				candidates.push(encodePath(this.withBasePath(url)))
+			}
+			srcsets.set(format, candidates)
+		}
+
+		const toSrcset = (format: ImageFormat) => (srcsets.get(format) as string[]).map((url, i) => `${url} ${widths[i]}w`).join(', ')
+		const sizes = options.sizes ?? '100vw'
+		const width = widths[widths.length - 1]
+		const fallbackUrls = srcsets.get(fallbackFormat) as string[]
+
+		return (
+			<picture>
+				{formats.filter(format => format !== fallbackFormat).map(format => (
+					<source key={format} type={`image/${format}`} srcSet={toSrcset(format)} sizes={sizes} />
+				))}
+				<img
+					src={fallbackUrls[fallbackUrls.length - 1]}
+					srcSet={toSrcset(fallbackFormat)}
+					sizes={sizes}
+					width={width}
+					height={Math.round(metadata.height * width / metadata.width)}
+					{...imgProps}
+				/>
+			</picture>
+		)
+	}
+
+	/**
+	 * Resolves the path of a static file to its URL, see {@link RenderContext.asset}
+	 * @param path The path of the static file
+	 * @param resources The {@link RenderResources} to use
+	 * @returns The file's URL
+	 */
+	private resolveAssetUrl(path: string, resources: RenderResources): string {
+		const url = resources.assets.get(path)?.url ?? path
+		return encodePath(url.startsWith('/') ? this.withBasePath(url) : url)
+	}
+
+	/**
+	 * Bundles a client entry with {@link Bun.build}
+	 * @param name The client entry's name
+	 * @param mode The mode the bundle will be used in, which determines the default options
+	 * @returns The resulting {@link ClientBundle}
+	 */
+	private async bundleClientEntry(name: string, mode: RenderMode): Promise<ClientBundle> {
+		const entrypoint = this.clientEntries.get(name)
+		if (entrypoint === undefined) {
+			throw new Error(`No client entry named "${name}" is registered`)
+		}
+
+		const result = await Bun.build({
+			entrypoints: [entrypoint],
+			target: 'browser',
+			naming: {
+				entry: name + '.[ext]',
+				chunk: name + '-[hash].[ext]',
+				asset: '[name]-[hash].[ext]',
+			},
+			minify: this.clientBundleOptions.minify ?? mode === 'build',
+			sourcemap: this.clientBundleOptions.sourcemap ?? (mode === 'build' ? 'none' : 'inline'),
+		})
+
+		if (!result.success) {
+			throw new AggregateError(result.logs, `Failed to bundle client entry "${name}" (${entrypoint})`)
+		}
+
+		const bundle: ClientBundle = { files: new Map(), scripts: [], stylesheets: [] }
+		for (const output of result.outputs) {
+			// Output paths are relative, such as './app.js'
+			const path = joinPaths(this.clientBundleRoute, output.path)
+			bundle.files.set(path, output)
+
+			if (path.endsWith('.css')) {
+				bundle.stylesheets.push(path)
+			} else if (output.kind === 'entry-point' && path.endsWith('.js')) {
+				bundle.scripts.push(path)
+			}
+		}
+
+		return bundle
+	}
+
+	/**
+	 * Returns a client entry's bundle for the development server, bundling it if it has not been bundled since its files last changed
+	 * @param name The client entry's name
+	 * @returns The {@link ClientBundle}
+	 */
+	private getDevClientBundle(name: string): Promise<ClientBundle> {
+		let bundle = this.devClientBundleCache.get(name)
+		if (bundle === undefined) {
+			bundle = this.bundleClientEntry(name, 'dev')
+			this.devClientBundleCache.set(name, bundle)
+
+			// Failed bundles should be retried on the next request
+			bundle.catch(() => this.devClientBundleCache.delete(name))
+
+			if (!this.devClientBundleWatchers.has(name)) {
+				const dir = dirname(this.clientEntries.get(name) as string)
+				this.devClientBundleWatchers.set(name, watch(dir, { recursive: true }, () => {
+					this.devClientBundleCache.delete(name)
+
+					if (this.liveReload) {
+						this.sendLiveReloadEvent({ type: 'reload' })
+					}
+				}))
+			}
+		}
+
+		return bundle
+	}
+
+	/**
+	 * Finds a file of the client entries' development bundles, bundling only the entries that could have produced it
+	 * @param path The request path
+	 * @returns The file, or null if no bundle has a file at the path
+	 */
+	private async findDevClientBundleFile(path: string): Promise<Blob | null> {
+		if (!path.startsWith(joinPaths(this.clientBundleRoute, '/'))) {
+			return null
+		}
+
+		// Entry files and chunks are named after their entry, so that entry's bundle is checked first.
+		// Other assets, such as imported fonts, could have been produced by any of the bundles.
+		const filename = basename(path)
+		const isNamedAfter = (name: string) => filename.startsWith(name + '.') || filename.startsWith(name + '-')
+		const names = [...this.clientEntries.keys()].sort((a, b) => Number(isNamedAfter(b)) - Number(isNamedAfter(a)))
+
+		for (const name of names) {
+			const file = (await this.getDevClientBundle(name)).files.get(path)
+			if (file !== undefined) {
+				return file
+			}
+		}
+
+		return null
+	}
+
+	/**
+	 * Prepares the {@link RenderResources} needed to render routes
+	 * @param mode The mode the resources will be used in
+	 * @returns The {@link RenderResources}
+	 */
+	private async getRenderResources(mode: RenderMode): Promise<RenderResources> {
+		const clientBundles = new Map<string, ClientBundle>()
+		for (const name of this.clientEntries.keys()) {
+			clientBundles.set(name, mode === 'dev' ? await this.getDevClientBundle(name) : await this.bundleClientEntry(name, mode))
+		}
+
+		return {
+			assets: await this.getAssets(),
+			clientBundles,
+			images: new Map(),
+		}
+	}
+
+	/**
+	 * Creates a {@link RenderContext} for rendering a concrete path
+	 * @param route The route being rendered
+	 * @param path The concrete path being rendered
+	 * @param params The params matched from the route
+	 * @param mode The mode the renderer is being called in
+	 * @param resources The {@link RenderResources} to use
+	 * @returns The resulting {@link RenderContext}
+	 */
+	private createContext(route: string, path: string, params: RouteParams, mode: RenderMode, resources: RenderResources): RenderContext {
+		const localization = this.getLocalization(route)
+		const locale = localization?.locale ?? null
+
+		const linkTo = (linkRoute: string, linkParams: RouteParams): string => {
+			const encodedParams: RouteParams = {}
+			for (const [name, value] of Object.entries(linkParams)) {
+				encodedParams[name] = encodeURIComponent(value)
+			}
+
+			return this.withBasePath(this.getCanonicalPath(fillRoute(linkRoute, encodedParams)))
+		}
+
+		const alternates: LocaleAlternate[] = []
+		if (localization !== null) {
+			for (const [altLocale, altRoute] of this.localizedRoutes.get(localization.route) as Map<string, string>) {
+				const url = linkTo(altRoute, params)
+				alternates.push({ locale: altLocale, url: this.siteUrl === null ? url : this.toAbsoluteUrl(url, 'alternate links') })
+			}
+		}
+
+		return {
+			route,
+			path,
+			outFile: this.getOutFile(path),
+			mode,
+			params,
+			siteUrl: this.siteUrl,
+			basePath: this.basePath,
+			canonicalUrl: this.siteUrl === null ? null : this.toAbsoluteUrl(this.getPageUrlPath(path), 'canonical URLs'),
+			locale,
+			alternates,
+			t: (key: string, values: Record<string, string | number> = {}): string => {
+				const translations = this.i18n?.translations ?? {}
+				const message =
+					(locale === null ? undefined : translations[locale]?.[key]) ??
+					(this.i18n === null ? undefined : translations[this.i18n.defaultLocale]?.[key]) ??
+					key
+
+				return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in values ? String(values[name]) : placeholder)
+			},
+			asset: (assetPath: string): string => this.resolveAssetUrl(assetPath, resources),
+			image: (src: string, options: ImageOptions): Promise<JSX.Element> => this.renderImage(src, options, resources),
+			clientTags: (name: string): JSX.Element => {
+				const bundle = resources.clientBundles.get(name)
+				if (bundle === undefined) {
+					throw new Error(`No client entry named "${name}" is registered`)
+				}
+
+				return (
+					<>
+						{bundle.stylesheets.map(href => <link key={href} rel="stylesheet" href={encodePath(this.withBasePath(href))} />)}
+						{bundle.scripts.map(src => <script key={src} type="module" src={encodePath(this.withBasePath(src))} />)}
+					</>
+				)
+			},
+			link: (linkRoute: string, linkParams: RouteParams = {}): string => {
+				const variants = this.localizedRoutes.get(linkRoute)
+				if (variants !== undefined && this.i18n !== null) {
+					linkRoute = variants.get(locale ?? this.i18n.defaultLocale) as string
+				}
+
+				if (!this.routes.has(linkRoute)) {
+					throw new Error(`Cannot link to unregistered route ${linkRoute}`)
+				}
+
+				return linkTo(linkRoute, linkParams)
+			},
+		}
+	}
+
+	/**
+	 * Separates a {@link RenderResult} into its body and response metadata, determining the content type if it was not specified
+	 * @param render The {@link RenderResult}
+	 * @param ctx The {@link RenderContext} it was rendered with
+	 * @returns The body, content type, headers and status (if specified)
+	 */
+	private unwrapRenderResult(render: RenderResult, ctx: RenderContext): UnwrappedRenderResult {
+		const res = isRouteResponse(render) ? render : { body: render }
+
+		let contentType = res.contentType
+		if (contentType === undefined) {
+			contentType = isObjectJsxElement(res.body) ? 'text/html;charset=utf-8' : getMimeType(ctx.outFile)
+		}
+
+		return {
+			body: res.body,
+			contentType,
+			headers: res.headers ?? {},
+			status: res.status,
+		}
+	}
+
+	/**
+	 * Returns whether a rendered result is an HTML page, based on its content type
+	 * @param contentType The result's content type
+	 * @returns Whether the result is an HTML page
+	 */
+	private isHtmlResult(contentType: string): boolean {
+		return contentType.startsWith('text/html')
+	}
+
+	/**
+	 * Returns whether a page's HTML needs to be passed through {@link postProcess}
+	 * @param ctx The {@link RenderContext} the page was rendered with
+	 * @returns Whether the page needs to be post-processed
+	 */
+	private needsPostProcessing(ctx: RenderContext): boolean {
+		return this.postProcessors.length > 0 || ctx.alternates.length > 0
+	}
+
+	/**
+	 * Adds `hreflang` alternate links to a page's `<head>` and passes its HTML through all {@link postProcessors} that apply to it
+	 * @param data The page's HTML
+	 * @param ctx The {@link RenderContext} the page was rendered with
+	 * @returns The processed HTML
+	 */
+	private async postProcess(data: string | Uint8Array, ctx: RenderContext): Promise<string> {
+		let html = typeof data === 'string' ? data : new TextDecoder().decode(data)
+
+		if (ctx.alternates.length > 0 && this.i18n !== null) {
+			const defaultAlternate = ctx.alternates.find(alternate => alternate.locale === this.i18n?.defaultLocale)
+
+			let links = ''
+			for (const { locale, url } of ctx.alternates) {
+				links += `<link rel="alternate" hreflang="${escapeXml(locale)}" href="${escapeXml(url)}"/>`
+			}
+			if (defaultAlternate !== undefined) {
+				links += `<link rel="alternate" hreflang="x-default" href="${escapeXml(defaultAlternate.url)}"/>`
+			}
+
+			html = await new HTMLRewriter()
+				.on('head', {
+					element(el) {
+						el.append(links, { html: true })
+					},
+				})
+				.transform(new Response(html))
+				.text()
+		}
+
+		for (const processor of this.postProcessors) {
+			if (processor.appliesTo !== undefined && !processor.appliesTo(ctx)) {
+				continue
+			}
+
+			try {
+				html = await processor.process(html, ctx)
+			} catch (err) {
+				throw new Error(`Post-processor "${processor.name}" failed for ${ctx.path}: ${(err as Error).message}`, { cause: err })
+			}
+		}
+
+		return html
+	}
+
+	/**
+	 * Creates the error thrown when a {@link Plugin} hook fails
+	 * @param plugin The plugin
+	 * @param hook The name of the hook
+	 * @param err The error the hook threw
+	 * @param path The path the hook was called for, if any
+	 * @returns The error
+	 */
+	private createPluginError(plugin: Plugin, hook: string, err: unknown, path?: string): Error {
+		const where = path === undefined ? '' : ` for ${path}`
+		return new Error(`Plugin "${plugin.name}" failed in ${hook}${where}: ${(err as Error).message}`, { cause: err })
+	}
+
+	/**
+	 * Renders a route, unless a {@link Plugin.beforeRender} hook returns a result for it
+	 * @param renderer The route's renderer
+	 * @param ctx The {@link RenderContext} to render with
+	 * @returns The {@link RenderResult}
+	 */
+	private async runRenderer(renderer: Renderer, ctx: RenderContext): Promise<RenderResult> {
+		for (const plugin of this.plugins) {
+			if (plugin.beforeRender === undefined) {
+				continue
+			}
+
+			let result: RenderResult | undefined
+			try {
+				result = await plugin.beforeRender(ctx)
+			} catch (err) {
+				throw this.createPluginError(plugin, 'beforeRender', err, ctx.path)
+			}
+
+			if (result !== undefined) {
+				return result
+			}
+		}
+
+		return await renderer(ctx)
+	}
+
+	/**
+	 * Post-processes a rendered route if it is an HTML page, and passes it through the {@link Plugin.afterRender} hooks.
+	 * The output is only buffered if post-processing or a hook needs it.
+	 *
+	 * @param rendered The unwrapped render result
+	 * @param ctx The {@link RenderContext} it was rendered with
+	 * @returns The final body, content type, headers and status
+	 */
+	private async finishRender(
+		{ body: render, contentType, headers, status }: UnwrappedRenderResult,
+		ctx: RenderContext,
+	): Promise<{ body: ResponseBody, contentType: string, headers: Record<string, string>, status: number | undefined }> {
+		const postProcess = this.needsPostProcessing(ctx) && this.isHtmlResult(contentType)
+		const hookPlugins = this.plugins.filter(plugin => plugin.afterRender !== undefined)
+
+		if (hookPlugins.length === 0) {
+			const body = postProcess ? await this.postProcess(await this.toFileData(render, ctx), ctx) : await this.toResponseBody(render, ctx)
+			return { body, contentType, headers, status }
+		}
+
+		let output: RouteOutput = {
+			body: postProcess ? await this.postProcess(await this.toFileData(render, ctx), ctx) : await this.toFileData(render, ctx),
+			contentType,
+			headers,
+			status,
+		}
+		for (const plugin of hookPlugins) {
+			try {
+				output = (await plugin.afterRender!(output, ctx)) ?? output
+			} catch (err) {
+				throw this.createPluginError(plugin, 'afterRender', err, ctx.path)
+			}
+		}
+
+		return output
+	}
+
+	/**
+	 * Renders a route for the development server, applying {@link postProcessors} and injecting the live reload client into HTML pages if live reload is enabled
+	 * @param renderer The route's renderer
+	 * @param ctx The {@link RenderContext} to render with
+	 * @param defaultStatus The status to respond with if the result does not specify one
+	 * @returns The response
+	 */
+	private async renderForDev(renderer: Renderer, ctx: RenderContext, defaultStatus = 200): Promise<Response> {
+		const rendered = this.unwrapRenderResult(await this.runRenderer(renderer, ctx), ctx)
+		const { body, contentType, headers, status } = await this.finishRender(rendered, ctx)
+		const init = {
+			status: status ?? defaultStatus,
+			headers: { ...headers, 'Content-Type': contentType },
+		}
+
+		if (this.liveReload && this.isHtmlResult(contentType)) {
+			return new Response(appendToResponseBody(body, liveReloadSnippet), init)
+		}
+
+		return new Response(body, init)
+	}
+
+	/**
+	 * Returns the {@link LiveReloadState}, creating it if it does not exist yet
+	 * @returns The {@link LiveReloadState} and whether it already existed
+	 */
+	private getLiveReloadState(): { state: LiveReloadState, existed: boolean } {
+		const global = globalThis as any
+		const existed = liveReloadStateKey in global
+		if (!existed) {
+			global[liveReloadStateKey] = { clients: new Set(), watchers: [], timeout: null } satisfies LiveReloadState
+		}
+
+		return { state: global[liveReloadStateKey], existed }
+	}
+
+	/**
+	 * Sends a live reload event to all connected development server clients
+	 * @param event The event to send
+	 */
+	private sendLiveReloadEvent(event: LiveReloadEvent): void {
+		const data = new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`)
+		const { clients } = this.getLiveReloadState().state
+
+		for (const client of clients) {
+			try {
+				client.enqueue(data)
+			} catch (err) {
+				// The client disconnected
+				clients.delete(client)
+			}
+		}
+	}
+
+	/**
+	 * Creates a server-sent events response that live reload events will be sent on
+	 * @returns The response
+	 */
+	private createLiveReloadResponse(): Response {
+		const { clients } = this.getLiveReloadState().state
+		let controller: ReadableStreamDefaultController<Uint8Array>
+		let keepAliveInterval: Timer
+
+		const stream = new ReadableStream<Uint8Array>({
+			start(ctrl) {
+				controller = ctrl
+				clients.add(ctrl)
+
+				// Send a comment right away so that the response starts, and periodically to keep the connection from being closed for being idle
+				const keepAlive = new TextEncoder().encode(': keep-alive\n\n')
+				ctrl.enqueue(keepAlive)
+				keepAliveInterval = setInterval(() => {
+					try {
+						ctrl.enqueue(keepAlive)
+					} catch (err) {
+						clearInterval(keepAliveInterval)
+					}
+				}, 5_000)
+			},
+			cancel() {
+				clients.delete(controller)
+				clearInterval(keepAliveInterval)
+			},
+		})
+
+		return new Response(stream, {
+			headers: {
+				'Content-Type': 'text/event-stream',
+				'Cache-Control': 'no-cache',
+			},
+		})
+	}
+
+	/**
+	 * Starts watching static mapping directories, collection directories and {@link moduleRenderer} modules, sending live reload events when they change.
+	 * Changes to CSS files in static mapping directories send `css` events, all other changes send `reload` events.
+	 *
+	 * If the state from a previous run already exists, the entrypoint was re-run by Bun's hot reloading.
+	 * In that case, the previous watchers are closed, and a `reload` event is sent since modules may have changed.
+	 */
+	private startLiveReload(): void {
+		const { state, existed } = this.getLiveReloadState()
+
+		for (const watcher of state.watchers) {
+			watcher.close()
+		}
+		state.watchers = []
+
+		let pendingReload = false
+
+		// Debounce events, since editors and hot reloading can produce several changes at once
+		const schedule = (css: boolean) => {
+			if (!css) {
+				pendingReload = true
+			}
+
+			if (state.timeout !== null) {
+				clearTimeout(state.timeout)
+			}
+			state.timeout = setTimeout(() => {
+				state.timeout = null
+				this.sendLiveReloadEvent({ type: pendingReload ? 'reload' : 'css' })
+				pendingReload = false
+			}, 100)
+		}
+
+		for (const [route, staticDir] of this.staticMappings) {
+			// Fingerprinted stylesheets get a new URL when they change, so swapping them requires a reload
+			const fingerprint = this.staticMappingOptions.get(route)?.fingerprint ?? false
+
+			state.watchers.push(watch(staticDir, { recursive: true }, (_, filename) => {
+				schedule(!fingerprint && (filename?.toString().endsWith('.css') ?? false))
+			}))
+		}
+
+		for (const collection of this.collections.values()) {
+			state.watchers.push(watch(collection.dir, () => schedule(false)))
+		}
+
+		for (const renderer of this.routes.values()) {
+			const modulePath = moduleRendererPaths.get(renderer)
+			if (modulePath === undefined) {
+				continue
+			}
+
+			state.watchers.push(watch(resolveModulePath(modulePath), () => schedule(false)))
+		}
+
+		if (existed) {
+			schedule(false)
+		}
+	}
+
+	/**
+	 * Webserver request handler, which passes requests through the {@link Plugin.middleware} of all plugins and responds with an error page if handling a request fails
+	 * @param req The request
+	 * @returns The response
+	 */
+	private async reqHandler(req: Request): Promise<Response> {
+		const middlewarePlugins = this.plugins.filter(plugin => plugin.middleware !== undefined)
+		const handle = async (index: number): Promise<Response> => {
+			if (index === middlewarePlugins.length) {
+				return await this.handleRequest(req)
+			}
+			return await middlewarePlugins[index].middleware!(req, () => handle(index + 1))
+		}
+
+		try {
+			return await this.compressResponse(req, await handle(0))
+		} catch (err) {
+			return await this.createErrorResponse(err, null, new URL(req.url).pathname)
+		}
+	}
+
+	/**
+	 * Compresses a development server response with the best encoding the client accepts, so that transfer sizes match a host that compresses responses.
+	 * Only successful text responses above the default threshold are compressed, and only if compression makes them smaller.
+	 * Responses are only buffered if the client accepts an encoding, and the `ETag` of a compressed response gets the encoding as a suffix, since its bytes differ from the original's.
+	 *
+	 * @param req The request
+	 * @param res The response
+	 * @returns The compressed response, or the original response if it should not be compressed
+	 */
+	private async compressResponse(req: Request, res: Response): Promise<Response> {
+		if (res.status !== 200 || res.body === null || res.headers.has('Content-Encoding') || !isCompressibleType(res.headers.get('Content-Type') ?? '')) {
+			return res
+		}
+
+		const headers = new Headers(res.headers)
+		headers.append('Vary', 'Accept-Encoding')
+
+		const encoding = negotiateEncoding(req.headers.get('Accept-Encoding') ?? '')
+		if (encoding === null) {
+			return new Response(res.body, { status: res.status, headers })
+		}
+
+		const data = new Uint8Array(await res.arrayBuffer())
+		if (data.length < defaultCompressionThreshold) {
+			return new Response(data, { status: res.status, headers })
+		}
+
+		const compressed = await compressData(data, encoding)
+		if (compressed.length >= data.length) {
+			return new Response(data, { status: res.status, headers })
+		}
+
+		const etag = headers.get('ETag')
+		if (etag !== null) {
+			headers.set('ETag', etag.replace(/"$/, `-${encoding}"`))
+		}
+		headers.set('Content-Encoding', encoding)
+		headers.delete('Content-Length')
+		return new Response(compressed, { status: res.status, headers })
+	}
+
+	/**
+	 * Creates the development server's error page response for an error, and logs the error
+	 * @param err The error
+	 * @param route The route that was being rendered, or null if the error did not happen while rendering a route
+	 * @param path The requested path
+	 * @returns The response
+	 */
+	private async createErrorResponse(err: unknown, route: string | null, path: string): Promise<Response> {
+		console.error(route === null ? `Error while handling ${path}:` : `Error while rendering ${path} (route ${route}):`, err)
+
+		let body: ResponseBody = await renderErrorPage(err, route, path)
+		if (this.liveReload) {
+			body = appendToResponseBody(body, liveReloadSnippet)
+		}
+
+		return new Response(body, {
+			status: 500,
+			headers: { 'Content-Type': 'text/html;charset=utf-8' },
+		})
+	}
+
+	/**
+	 * Handles a development server request
+	 * @param req The request
+	 * @returns The response
+	 */
+	private async handleRequest(req: Request): Promise<Response> {
+		// Parsing the URL removes the query string, and resolves `.` and `..` segments
+		const url = new URL(req.url)
+		const fullPath = url.pathname
+
+		if (this.liveReload && fullPath === liveReloadPath) {
+			return this.createLiveReloadResponse()
+		}
+
+		// The site is mounted under the base path
+		if (!fullPath.startsWith(this.basePath)) {
+			if (fullPath + '/' === this.basePath) {
+				return new Response(null, {
+					status: 308,
+					headers: { Location: this.basePath + url.search },
+				})
+			}
+
+			return new Response(`Not found, the site is served under ${this.basePath}`, { status: 404 })
+		}
+
+		// Routes are matched against the percent-encoded path, while files are looked up by their decoded paths
+		const path = fullPath.substring(this.basePath.length - 1)
+		const decodedPath = decodeRequestPath(path)
+
+		const routes = [
+			path,
+			path + '/',
+		]
+
+		// Try without index suffix
+		if (path.endsWith('/' + this.indexFilename)) {
+			routes.push(path.substring(0, path.length - this.indexFilename.length))
+		}
+
+		// Try without .html suffix, since that's how pages are written when trailing slashes are never used
+		if (this.trailingSlash === 'never' && path.endsWith('.html')) {
+			const withoutExt = path.substring(0, path.length - '.html'.length)
+			routes.push(withoutExt, withoutExt + '/')
+		}
+
+		for (const route of routes) {
+			const redirect = this.redirects.get(route)
+			if (redirect !== undefined) {
+				return new Response(null, {
+					status: redirect.status,
+					headers: { Location: this.resolveRedirectTarget(redirect.to) },
+				})
+			}
+		}
+
+		// Try to find a matching route
+		let match: RouteMatch | null = null
+		for (let route of routes) {
+			match = await this.matchRoute(route)
+
+			if (match !== null) {
+				break
+			}
+		}
+
+		const localeRedirect = await this.getLocaleRedirect(path, match, req.headers.get('Accept-Language'))
+		if (localeRedirect !== null) {
+			return new Response(null, {
+				status: 302,
+				headers: { Location: localeRedirect, Vary: 'Accept-Language' },
+			})
+		}
+
+		if (match !== null && this.trailingSlash !== 'preserve') {
+			const canonical = this.getCanonicalPath(match.path)
+			if ((decodedPath ?? path) !== canonical) {
+				return new Response(null, {
+					status: 308,
+					headers: { Location: encodePath(this.withBasePath(canonical)) + url.search },
+				})
+			}
+		}
+
+		if (match === null) {
+			// No matching route was found, so try to serve a bundled client file or static file if possible, then the 404 route if nothing matches.
+			// Only the bundle or file the path refers to is looked up, so that a failing client bundle does not break unrelated files.
+
+			const bundleFile = await this.findDevClientBundleFile(path)
+			if (bundleFile !== null) {
+				return new Response(bundleFile)
+			}
+
+			// Paths that could resolve outside of the mapped directories are not looked up at all
+			if (decodedPath !== null) {
+				const fingerprintedFile = await this.resolveFingerprintedFile(decodedPath)
+				if (fingerprintedFile !== null) {
+					return await this.createStaticFileResponse(req, fingerprintedFile)
+				}
+
+				// Image variants are generated when they are first requested
+				const imageVariant = this.imageVariants.get(decodedPath)
+				if (imageVariant !== undefined) {
+					return new Response(Bun.file(await this.getImageVariantFile(imageVariant)))
+				}
+
+				const staticFile = await this.resolveStaticFile(decodedPath)
+				if (staticFile !== null) {
+					// Directory indexes are served under the directory's path with a trailing slash, so that relative links in them resolve
+					if (!decodedPath.endsWith('/') && joinPaths(staticFile.route, staticFile.file) !== decodedPath) {
+						return new Response(null, {
+							status: 308,
+							headers: { Location: encodePath(this.withBasePath(decodedPath + '/')) + url.search },
+						})
+					}
+
+					return await this.createStaticFileResponse(req, staticFile)
+				}
+			}
+
+			// If it didn't return by now, then no static file was found
+
+			const notFoundRoute = '/' + this.notFoundFilename
+			const notFoundRenderer = this.routes.get(notFoundRoute)
+			if (notFoundRenderer === undefined) {
+				return new Response(
+					'No route was found, and no 404 page was found either',
+					{ status: 404 },
+				)
+			} else {
+				try {
+					const resources = await this.getRenderResources('dev')
+					return await this.renderForDev(
+						notFoundRenderer,
+						this.createContext(notFoundRoute, notFoundRoute, {}, 'dev', resources),
+						404,
+					)
+				} catch (err) {
+					return await this.createErrorResponse(err, notFoundRoute, path)
+				}
+			}
+		} else {
+			// Route was found, render it, which is the only case that needs all resources
+			try {
+				const resources = await this.getRenderResources('dev')
+				const ctx = this.createContext(match.route, match.path, match.params, 'dev', resources)
+				return await this.renderForDev(match.renderer, ctx)
+			} catch (err) {
+				return await this.createErrorResponse(err, match.route, path)
+			}
+		}
+	}
+
+	/**
+	 * Sets the filename to use for index pages
+	 * @param filename The filename to use for index pages
+	 * @returns This, to be used fluently
+	 */
+	public setIndexFilename(filename: string) {
+		this.indexFilename = filename
+
+		return this
+	}
+
+	/**
+	 * Sets the base path the site is served under, such as `/docs/`.
+	 * A leading and trailing slash are added if missing.
+	 * @param basePath The base path
+	 * @returns This, to be used fluently
+	 */
+	public setBasePath(basePath: string) {
+		this.basePath = ('/' + basePath + '/').replace(/\/{2,}/g, '/')
+
+		return this
+	}
+
+	/**
+	 * Sets the {@link TrailingSlashPolicy} to use
+	 * @param policy The policy
+	 * @returns This, to be used fluently
+	 */
+	public setTrailingSlash(policy: TrailingSlashPolicy) {
+		this.trailingSlash = policy
+
+		return this
+	}
+
+	/**
+	 * Sets the site's base URL, such as `https://example.com`
+	 * @param url The site's base URL, or null if it is not known
+	 * @returns This, to be used fluently
+	 */
+	public setSiteUrl(url: string | null) {
+		this.siteUrl = url
+
+		return this
+	}
+
+	/**
+	 * Enables head management, which injects the entries declared with {@link useHead} (or {@link Seo}) into the `<head>` of pages.
+	 * Since any component can declare entries, JSX pages are rendered completely before they are written or served, rather than being streamed.
+	 * @returns This, to be used fluently
+	 */
+	public enableHeadManagement() {
+		this.headManagement = true
+
+		return this
+	}
+
+	/**
+	 * Sets the filename of the build manifest
+	 * @param filename The filename of the build manifest
+	 * @returns This, to be used fluently
+	 */
+	public setManifestFilename(filename: string) {
+		this.manifestFilename = filename
+
+		return this
+	}
+
+	/**
+	 * Sets the filename of the asset manifest
+	 * @param filename The filename of the asset manifest
+	 * @returns This, to be used fluently
+	 */
+	public setAssetManifestFilename(filename: string) {
+		this.assetManifestFilename = filename
+
+		return this
+	}
+
+	/**
+	 * Sets the route that bundled client entries are served from
+	 * @param route The route, which must begin and end with a slash
+	 * @returns This, to be used fluently
+	 */
+	public setClientBundleRoute(route: string) {
+		if (!route.startsWith('/') || !route.endsWith('/')) {
+			throw new Error('The client bundle route must begin and end with a slash')
+		}
+
+		this.clientBundleRoute = route
+
+		return this
+	}
+
+	/**
+	 * Sets the options used for bundling client entries
+	 * @param options The options
+	 * @returns This, to be used fluently
+	 */
+	public setClientBundleOptions(options: ClientBundleOptions) {
+		this.clientBundleOptions = options
+
+		return this
+	}
+
+	/**
+	 * Sets the route that image variants are served from
+	 * @param route The route, which must begin and end with a slash
+	 * @returns This, to be used fluently
+	 */
+	public setImageRoute(route: string) {
+		if (!route.startsWith('/') || !route.endsWith('/')) {
+			throw new Error('The image route must begin and end with a slash')
+		}
+
+		this.imageRoute = route
+
+		return this
+	}
+
+	/**
+	 * Sets the directory that image variants are cached in between builds
+	 * @param dir The directory
+	 * @returns This, to be used fluently
+	 */
+	public setImageCacheDir(dir: string) {
+		this.imageCacheDir = dir
+
+		return this
+	}
+
+	/**
+	 * Registers a CLI command, which can then be run with {@link cli} and is listed in the help text
+	 * @param command The {@link CliCommand}
+	 * @returns This, to be used fluently
+	 */
+	public addCommand(command: CliCommand) {
+		if (command.name === '' || isOptionArg(command.name)) {
+			throw new Error(`Invalid command name "${command.name}"`)
+		}
+		if (this.commands.has(command.name)) {
+			throw new Error(`The command "${command.name}" is already defined`)
+		}
+
+		const names = new Set<string>()
+		for (const option of [helpOption, ...(command.options ?? [])]) {
+			for (const name of [option.name, option.short]) {
+				if (name === undefined) {
+					continue
+				}
+				if (names.has(name)) {
+					throw new Error(`The command "${command.name}" defines the option "${name}" more than once`)
+				}
+				names.add(name)
+			}
+
+			if (option.short !== undefined && option.short.length !== 1) {
+				throw new Error(`The short name of option --${option.name} must be a single character`)
+			}
+		}
+
+		this.commands.set(command.name, command)
+
+		return this
+	}
+
+	/**
+	 * Registers a {@link Plugin}, calling its {@link Plugin.setup} hook
+	 * @param plugin The plugin
+	 * @returns This, to be used fluently
+	 */
+	public use(plugin: Plugin) {
+		for (const command of plugin.commands ?? []) {
+			if (this.commands.has(command.name)) {
+				throw new Error(`Plugin "${plugin.name}" cannot add the command "${command.name}", since it is already defined`)
+			}
+		}
+
+		this.plugins.push(plugin)
+		for (const command of plugin.commands ?? []) {
+			this.addCommand(command)
+		}
+		plugin.setup?.(this)
+
+		return this
+	}
+
+	/**
+	 * Registers a client entry, a TypeScript, TSX, JavaScript or CSS file that will be bundled for the browser with {@link Bun.build}.
+	 * Bundles are served from {@link clientBundleRoute}, and renderers can include them with {@link RenderContext.clientTags}.
+	 *
+	 * When building, entries are bundled once at the start of the build.
+	 * In the development server, entries are bundled on demand, and bundled again after a file in the entrypoint's directory changes.
+	 *
+	 * @param name The entry's name, which is used as the bundle's filename (for example, 'app' results in '/_client/app.js')
+	 * @param entrypoint The path of the entrypoint file
+	 * @returns This, to be used fluently
+	 */
+	public setClientEntry(name: string, entrypoint: string) {
+		if (name === '' || name.includes('/')) {
+			throw new Error(`Invalid client entry name "${name}"`)
+		}
+
+		this.clientEntries.set(name, entrypoint)
+		this.devClientBundleCache.delete(name)
+
+		return this
+	}
+
+	/**
+	 * Adds an {@link HtmlPostProcessor} to the end of the post-processing chain.
+	 * Post-processors run on every HTML route result, in both {@link build} and {@link serve}.
+	 *
+	 * Built-in post-processors can be created with {@link doctypePostProcessor}, {@link minifyPostProcessor} and {@link rewriterPostProcessor}.
+	 *
+	 * @param processor The post-processor
+	 * @returns This, to be used fluently
+	 */
+	public addPostProcessor(processor: HtmlPostProcessor) {
+		this.postProcessors.push(processor)
+
+		return this
+	}
+
+	/**
+	 * Sets a redirect from a path to another path or URL.
+	 * The development server responds with a real redirect, and builds write an HTML page that redirects with a `<meta http-equiv="refresh">` tag.
+	 * Builds can also write redirect configuration files for static hosts, see {@link BuildOptions.hostFiles}.
+	 *
+	 * @param from The path to redirect from, which may not be a registered route
+	 * @param to The path or URL to redirect to
+	 * @param status The redirect's status code (defaults to 301)
+	 * @returns This, to be used fluently
+	 */
+	public setRedirect(from: string, to: string, status = 301) {
+		if (this.routes.has(from)) {
+			throw new Error(`Cannot redirect from ${from}, since it is a registered route`)
+		}
+
+		this.redirects.set(from, { to, status })
+
+		return this
+	}
+
+	/**
+	 * Sets the filename to use for the not found (404) page
+	 * @param filename The filename to use for the not found page
+	 * @returns This, to be used fluently
+	 */
+	public setNotFoundFilename(filename: string) {
+		this.notFoundFilename = filename
+
+		return this
+	}
+
+	/**
+	 * Sets a renderer for a route.
+	 * If the route ends with a trailing slash, {@link indexFilename} will be appended to it internally at build/serve time.
+	 *
+	 * Routes may be dynamic by using `:name` parameter segments, such as `/blog/:slug/`.
+	 * Dynamic routes require a {@link PathsProvider}, which enumerates the params of every concrete path to build and serve.
+	 * The matched {@link RouteParams} are passed to the {@link Renderer} as part of its {@link RenderContext}.
+	 *
+	 * If you want your {@link Renderer} to be hot reloaded with Bun's hot reload feature, specify a module path, or use {@link moduleRenderer}.
+	 * Hot reload will not work when providing a {@link Renderer} directly.
+	 *
+	 * @param route The route
+	 * @param renderer The {@link Renderer} for the route, or a path to the module that exports a {@link Renderer} or {@link RenderResult}
+	 * @param pathsProvider The {@link PathsProvider} for the route (required for dynamic routes)
+	 * @returns This, to be used fluently
+	 */
+	public setRoute(route: string, renderer: Renderer | string, pathsProvider?: PathsProvider) {
+		if (isDynamicRoute(route)) {
+			if (pathsProvider === undefined) {
+				throw new Error(`Dynamic route ${route} requires a paths provider`)
+			}
+
+			this.pathsProviders.set(route, pathsProvider)
+		} else if (pathsProvider !== undefined) {
+			throw new Error(`Route ${route} is not dynamic, so it cannot have a paths provider`)
+		}
+
+		if (typeof renderer === 'string') {
+			this.routes.set(route, moduleRenderer(renderer))
+		} else {
+			this.routes.set(route, renderer)
+		}
+
+		return this
+	}
+
+	/**
+	 * Sets up internationalization, which is required before using {@link setLocalizedRoute}
+	 * @param options The {@link I18nOptions}
+	 * @returns This, to be used fluently
+	 */
+	public setI18n(options: I18nOptions) {
+		if (!options.locales.includes(options.defaultLocale)) {
+			throw new Error(`The default locale "${options.defaultLocale}" is not one of the locales`)
+		}
+		for (const locale of options.locales) {
+			if (locale === '' || locale.includes('/')) {
+				throw new Error(`Invalid locale "${locale}"`)
+			}
+		}
+
+		this.i18n = options
+
+		return this
+	}
+
+	/**
+	 * Sets a route that is rendered once for every locale set with {@link setI18n}.
+	 * The route is expanded into one route per locale, prefixed with the locale (for example, `/about` becomes `/en/about` and `/de/about`).
+	 * Unless {@link I18nOptions.prefixDefaultLocale} is enabled, the default locale is served at the route itself.
+	 *
+	 * The renderer receives the locale and a translation lookup in its {@link RenderContext}, and `hreflang` alternate links to the other locales are added to HTML pages.
+	 * Dynamic routes use the same {@link PathsProvider} for every locale.
+	 *
+	 * @param route The route, without a locale prefix
+	 * @param renderer The {@link Renderer} for the route, or a path to the module that exports a {@link Renderer} or {@link RenderResult}
+	 * @param pathsProvider The {@link PathsProvider} for the route (required for dynamic routes)
+	 * @returns This, to be used fluently
+	 */
+	public setLocalizedRoute(route: string, renderer: Renderer | string, pathsProvider?: PathsProvider) {
+		if (this.i18n === null) {
+			throw new Error('Internationalization must be set up with setI18n before setting localized routes')
+		}
+		if (!route.startsWith('/')) {
+			throw new Error(`Localized route ${route} must begin with an initial slash`)
+		}
+
+		const variants = new Map<string, string>()
+		for (const locale of this.i18n.locales) {
+			const isRoot = locale === this.i18n.defaultLocale && !this.i18n.prefixDefaultLocale
+			const localizedRoute = isRoot ? route : '/' + locale + route
+
+			this.setRoute(localizedRoute, renderer, pathsProvider)
+			variants.set(locale, localizedRoute)
+		}
+		this.localizedRoutes.set(route, variants)
+
+		return this
+	}
+
+	/**
+	 * Maps a route to a static resource directory
+	 * @param route The route where the resources will be served from
+	 * @param directory The directory that will be the source of the static files
+	 * @param options Options for the mapping
+	 * @returns This, to be used fluently
+	 */
+	public mapStatic(route: string, directory: string, options: StaticMappingOptions = {}) {
+		if (!route.startsWith('/')) {
+			throw new Error(
+				'Static routes must begin with an initial slash (using "/ is valid for root)',
+			)
+		}
+		if (!route.endsWith('/')) {
+			throw new Error(
+				'Static routes must end with a trailing slash (using "/" is valid for root)',
+			)
+		}
+
+		this.staticMappings.set(route, directory)
+		this.staticMappingOptions.set(route, options)
+
+		return this
+	}
+
+	/**
+	 * Sets a renderer for the not found (404) page
+	 *
+	 * If you want your {@link Renderer} to be hot reloaded with Bun's hot reload feature, specify a module path, or use {@link moduleRenderer}.
+	 * Hot reload will not work when providing a {@link Renderer} directly.
+	 *
+	 * @param renderer The {@link Renderer} for the route, or a path to the module that exports a {@link Renderer} or {@link RenderResult}
+	 * @returns This, to be used fluently
+	 */
+	public setNotFound(renderer: Renderer | string) {
+		const route = '/' + this.notFoundFilename
+
+		if (typeof renderer === 'string') {
+			this.routes.set(route, moduleRenderer(renderer))
+		} else {
+			this.routes.set(route, renderer)
+		}
+
+		return this
+	}
+
+	/**
+	 * Converts a URL to an absolute URL, using {@link siteUrl} as the base for URLs that are not already absolute
+	 * @param url The URL to convert
+	 * @param purpose What the URL is needed for, used in the error message if {@link siteUrl} is not set
+	 * @returns The absolute URL
+	 */
+	private toAbsoluteUrl(url: string, purpose: string): string {
+		if (/^[a-z][a-z0-9+.-]*:/i.test(url)) {
+			return url
+		}
+
+		if (this.siteUrl === null) {
+			throw new Error(`A site URL must be set with setSiteUrl to generate ${purpose}`)
+		}
+
+		return this.siteUrl.replace(/\/+$/, '') + (url.startsWith('/') ? url : '/' + url)
+	}
+
+	/**
+	 * Sets sitemap options for a route
+	 * @param route The route
+	 * @param options The route's sitemap options
+	 * @returns This, to be used fluently
+	 */
+	public setSitemapOptions(route: string, options: SitemapOptions) {
+		this.sitemapOptions.set(route, options)
+
+		return this
+	}
+
+	/**
+	 * Generates a `sitemap.xml` file at the specified route from all registered routes.
+	 *
+	 * The not found route, routes that produce files with an extension other than `.html` or `.htm` (such as feeds), and routes excluded with {@link setSitemapOptions} are omitted.
+	 * Routes whose paths have no extension but don't render HTML can declare their content type with {@link SitemapOptions.contentType} to be omitted as well.
+	 * Paths ending with {@link indexFilename} are listed with a trailing slash instead.
+	 * Requires {@link siteUrl} to be set, since sitemap URLs must be absolute.
+	 *
+	 * @param route The route to generate the sitemap at (defaults to '/sitemap.xml')
+	 * @returns This, to be used fluently
+	 */
+	public enableSitemap(route = '/sitemap.xml') {
+		this.sitemapRoute = route
+
+		return this.setRoute(route, async () => {
+			let xml = '<?xml version="1.0" encoding="UTF-8"?>\n'
+			xml += '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n'
+
+			for (const pageRoute of this.routes.keys()) {
+				// Localized routes use the options of the route they were expanded from
+				const options = this.sitemapOptions.get(pageRoute) ?? this.sitemapOptions.get(this.getLocalization(pageRoute)?.route as string) ?? {}
+				if (pageRoute === route || pageRoute === '/' + this.notFoundFilename || options.exclude) {
+					continue
+				}
+
+				for (const { path, params } of await this.getConcretePaths(pageRoute)) {
+					// Output files without an extension are assumed to be HTML, unless the route declares otherwise
+					const ext = extname(this.getOutFile(path))
+					const isHtml = options.contentType === undefined ? ext === '' || ext === '.html' || ext === '.htm' : this.isHtmlResult(options.contentType)
+					if (!isHtml) {
+						continue
+					}
+
+					const urlPath = this.getPageUrlPath(path)
+
+					const lastmod = typeof options.lastmod === 'function' ? options.lastmod(params) : options.lastmod
+
+					xml += '<url>'
+					xml += `<loc>${escapeXml(this.toAbsoluteUrl(urlPath, 'a sitemap'))}</loc>`
+					if (lastmod !== undefined) {
+						xml += `<lastmod>${escapeXml(lastmod instanceof Date ? lastmod.toISOString() : lastmod)}</lastmod>`
+					}
+					if (options.changefreq !== undefined) {
+						xml += `<changefreq>${options.changefreq}</changefreq>`
+					}
+					if (options.priority !== undefined) {
+						xml += `<priority>${options.priority.toFixed(1)}</priority>`
+					}
+					xml += '</url>\n'
+				}
+			}
+
+			xml += '</urlset>\n'
+
+			return xml
+		})
+	}
+
+	/**
+	 * Generates a `robots.txt` file at the specified route.
+	 * If the sitemap is enabled with {@link enableSitemap} and {@link siteUrl} is set, a `Sitemap` line pointing to it is included.
+	 *
+	 * @param rules The rule groups to include (defaults to allowing everything for all user agents)
+	 * @param route The route to generate the file at (defaults to '/robots.txt')
+	 * @returns This, to be used fluently
+	 */
+	public enableRobotsTxt(rules: RobotsRule[] = [{ userAgent: '*' }], route = '/robots.txt') {
+		return this.setRoute(route, () => {
+			const groups: string[] = []
+
+			for (const rule of rules) {
+				let group = `User-agent: ${rule.userAgent}\n`
+				for (const path of rule.allow ?? []) {
+					group += `Allow: ${path}\n`
+				}
+				for (const path of rule.disallow ?? []) {
+					group += `Disallow: ${path}\n`
+				}
+
+				// An empty Disallow line is needed for a group to be valid if it has no other rules
+				if ((rule.allow ?? []).length === 0 && (rule.disallow ?? []).length === 0) {
+					group += 'Disallow:\n'
+				}
+
+				groups.push(group)
+			}
+
+			if (this.sitemapRoute !== null && this.siteUrl !== null) {
+				groups.push(`Sitemap: ${this.toAbsoluteUrl(encodePath(this.withBasePath(this.sitemapRoute)), 'a robots.txt file')}\n`)
+			}
+
+			return groups.join('\n')
+		})
+	}
+
+	/**
+	 * Generates RSS 2.0 and/or Atom feeds from a {@link FeedProvider}.
+	 * URLs in the feed that are not absolute are resolved against {@link siteUrl}, so paths should include the {@link basePath}, as the ones generated with {@link RenderContext.link} do.
+	 *
+	 * @param provider The {@link FeedProvider} that returns the feed
+	 * @param routes The routes to generate the RSS 2.0 and Atom feeds at (defaults to '/rss.xml' and '/atom.xml'), omit one to only generate the other
+	 * @returns This, to be used fluently
+	 */
+	public setFeed(provider: FeedProvider, routes: { rss?: string, atom?: string } = { rss: '/rss.xml', atom: '/atom.xml' }) {
+		const resolveFeed = async (ctx: RenderContext): Promise<Feed> => {
+			const feed = await provider(ctx)
+
+			return {
+				...feed,
+				url: this.toAbsoluteUrl(feed.url, 'a feed'),
+				entries: feed.entries.map(entry => ({ ...entry, url: this.toAbsoluteUrl(entry.url, 'a feed') })),
+			}
+		}
+
+		if (routes.rss !== undefined) {
+			this.setRoute(routes.rss, async ctx => renderRssFeed(await resolveFeed(ctx), this.toAbsoluteUrl(encodePath(this.withBasePath(ctx.path)), 'a feed')))
+		}
+		if (routes.atom !== undefined) {
+			this.setRoute(routes.atom, async ctx => renderAtomFeed(await resolveFeed(ctx), this.toAbsoluteUrl(encodePath(this.withBasePath(ctx.path)), 'a feed')))
+		}
+
+		return this
+	}
+
+	/**
+	 * Registers a route for each entry in a {@link ContentCollection}.
+	 * The route must be dynamic with exactly one parameter, which will be the entry's slug (for example, `/blog/:slug/`).
+	 *
+	 * Entries are loaded when paths are enumerated and when they are rendered, so new and edited files are picked up by both {@link build} and {@link serve}.
+	 *
+	 * @param route The route
+	 * @param collection The collection
+	 * @param renderer The function that renders an entry
+	 * @returns This, to be used fluently
+	 */
+	public setCollection<T>(route: string, collection: ContentCollection<T>, renderer: ContentRenderer<T>) {
+		const paramNames = route
+			.split('/')
+			.filter(segment => segment.startsWith(':'))
+			.map(segment => segment.substring(1))
+		if (paramNames.length !== 1) {
+			throw new Error(`Collection route ${route} must have exactly one parameter`)
+		}
+		const [paramName] = paramNames
+
+		this.collections.set(route, collection)
+
+		return this.setRoute(
+			route,
+			async (ctx) => {
+				const entry = await collection.get(ctx.params[paramName])
+				if (entry === null) {
+					throw new Error(`No entry with slug "${ctx.params[paramName]}" in collection ${collection.dir}`)
+				}
+
+				return await renderer(entry, ctx)
+			},
+			async () => (await collection.load()).map(entry => ({ [paramName]: entry.slug })),
+		)
+	}
+
+	/**
+	 * Processes a render result's body into data that can be written to a file
+	 * @param render The body to process
+	 * @param ctx The {@link RenderContext} it was rendered with, if any
+	 * @returns The resulting data
+	 */
+	private async toFileData(render: ResponseBody | JSX.Element, ctx?: RenderContext): Promise<string | Uint8Array> {
+		if (typeof render === 'string') {
+			return render
+		} else if (isObjectJsxElement(render)) {
+			return await renderToString(render, { head: this.headManagement, canonicalUrl: ctx?.canonicalUrl })
+		} else if (render instanceof ReadableStream) {
+			// Streams may be binary, so they are not decoded
+			return new Uint8Array(await new Response(render).arrayBuffer())
+		} else if (render instanceof Uint8Array) {
+			return render
 		} else {
-			return renderResult as ResponseBody
+			throw new Error('Invalid render result. Must be one of the following types: string, Uint8Array, ReadableStream, or JSX.Element.')
 		}
 	}
 
 	/**
-	 * Webserver request handler
-	 * @param req The request
-	 * @returns The response
+	 * Reads the build manifest from an output directory
+	 * @param outDir The output directory
+	 * @returns The build manifest, or an empty one if it does not exist or is from an incompatible version
 	 */
-	private async reqHandler(req: Request): Promise<Response> {
-		const path = req.url.substring(req.url.indexOf('/', 8))
+	private async readManifest(outDir: string): Promise<BuildManifest> {
+		const file = Bun.file(joinPaths(outDir, this.manifestFilename))
+		if (await file.exists()) {
+			const manifest = await file.json() as BuildManifest
+			if (manifest.version === manifestVersion) {
+				return manifest
+			}
+		}
 
-		const routes = [
-			path,
-			path + '/',
-		]
+		return { version: manifestVersion, files: {} }
+	}
 
-		// Try without index suffix
-		if (path.endsWith('/' + this.indexFilename)) {
-			routes.push(path.substring(0, path.length - this.indexFilename.length))
+	/**
+	 * Finds links in the emitted HTML files that point inside the site but do not resolve to any output file.
+	 * Links are resolved the same way as the development server resolves them, including {@link indexFilename} resolution.
+	 * Links to the site's base URL are considered to point inside the site.
+	 *
+	 * @param outDir The output directory
+	 * @param outFiles All output files of the build, relative to the output directory
+	 * @returns The broken links
+	 */
+	private async findBrokenLinks(outDir: string, outFiles: Set<string>): Promise<BrokenLink[]> {
+		// Links are resolved relative to a placeholder origin, so that links with any other origin can be ignored
+		const origin = 'http://simple-jsx-ssg.invalid'
+		const siteOrigin = this.siteUrl === null ? null : new URL(this.siteUrl).origin
+
+		const brokenLinks: BrokenLink[] = []
+
+		for (const page of outFiles) {
+			if (!page.endsWith('.html')) {
+				continue
+			}
+
+			const links: { attribute: string, url: string }[] = []
+			const rewriter = new HTMLRewriter()
+				.on('[href]', {
+					element(el) {
+						links.push({ attribute: 'href', url: el.getAttribute('href') as string })
+					},
+				})
+				.on('[src]', {
+					element(el) {
+						links.push({ attribute: 'src', url: el.getAttribute('src') as string })
+					},
+				})
+				.on('[srcset]', {
+					element(el) {
+						// Each candidate is a URL optionally followed by a descriptor
+						for (const candidate of (el.getAttribute('srcset') as string).split(',')) {
+							const url = candidate.trim().split(/\s+/)[0]
+							if (url !== '') {
+								links.push({ attribute: 'srcset', url })
+							}
+						}
+					},
+				})
+			await rewriter.transform(new Response(Bun.file(joinPaths(outDir, page)))).arrayBuffer()
+
+			for (const link of links) {
+				let url: URL
+				try {
+					url = new URL(link.url, origin + encodePath(this.withBasePath(page)))
+				} catch (err) {
+					brokenLinks.push({ page, ...link })
+					continue
+				}
+
+				if (url.origin !== origin && url.origin !== siteOrigin) {
+					continue
+				}
+
+				let path: string
+				try {
+					path = decodeURIComponent(url.pathname)
+				} catch (err) {
+					path = url.pathname
+				}
+
+				// Links outside of the base path can't resolve to anything the site contains
+				if (!path.startsWith(this.basePath)) {
+					brokenLinks.push({ page, ...link })
+					continue
+				}
+				path = path.substring(this.basePath.length - 1)
+
+				const resolves =
+					outFiles.has(path) ||
+					outFiles.has(this.getOutFile(path)) ||
+					outFiles.has(path + '/' + this.indexFilename)
+				if (!resolves) {
+					brokenLinks.push({ page, ...link })
+				}
+			}
 		}
 
-		// Try to find a matching route
-		let renderer: Renderer | undefined
-		for (let route of routes) {
-			renderer = this.routes.get(route)
+		return brokenLinks
+	}
 
-			if (renderer !== undefined) {
-				break
+	/**
+	 * Enumerates the concrete paths of all routes
+	 * @returns The {@link Page}s, and the output files of all pages and redirects along with the routes or redirects that write them
+	 */
+	private async getPages(): Promise<{ pages: Page[], pageOutFiles: Map<string, string> }> {
+		const pages: Page[] = []
+		for (const [route, renderer] of this.routes) {
+			for (const { path, params } of await this.getConcretePaths(route)) {
+				pages.push({ route, renderer, path, params })
+			}
+		}
+
+		const pageOutFiles = new Map(pages.map(page => [this.getOutFile(page.path), page.route]))
+		for (const from of this.redirects.keys()) {
+			pageOutFiles.set(this.getOutFile(from), from)
+		}
+
+		return { pages, pageOutFiles }
+	}
+
+	/**
+	 * Finds the static files to copy, skipping files whose output paths are also written by routes, redirects or earlier static mappings
+	 * @param pageOutFiles The output files of all pages and redirects, as returned by {@link getPages}
+	 * @returns The static files keyed by output file, and the {@link OutputConflict}s of the skipped files
+	 */
+	private async getStaticOutputs(pageOutFiles: Map<string, string>): Promise<{
+		outputs: Map<string, StaticFileMatch>,
+		conflicts: OutputConflict[],
+	}> {
+		const outputs = new Map<string, StaticFileMatch>()
+		const conflicts: OutputConflict[] = []
+
+		for (const [route, staticDir] of this.staticMappings) {
+			for (const staticFile of await this.listStaticFiles(route, staticDir)) {
+				const outFile = joinPaths(route, staticFile.file)
+				const conflictingRoute = pageOutFiles.get(outFile) ?? outputs.get(outFile)?.route
+				if (conflictingRoute !== undefined) {
+					conflicts.push({ outFile, route: conflictingRoute, sourceFile: staticFile.sourceFile, staticRoute: route })
+				} else {
+					outputs.set(outFile, staticFile)
+				}
 			}
 		}
 
-		if (renderer === undefined) {
-			// No matching route was found, so try to serve a static file if possible, then the 404 route if nothing matches
+		return { outputs, conflicts }
+	}
+
+	/**
+	 * Lists what the site consists of: its routes and their output files, its static mappings, and output paths that are written by both a route and a static file.
+	 * Dynamic routes are enumerated with their {@link PathsProvider}s.
+	 *
+	 * @returns The {@link SiteInfo}
+	 */
+	public async inspect(): Promise<SiteInfo> {
+		const routes: RouteInfo[] = []
+		for (const [route, renderer] of this.routes) {
+			const modulePath = moduleRendererPaths.get(renderer) ?? null
+
+			routes.push({
+				route,
+				kind: modulePath === null ? 'inline' : 'module',
+				modulePath,
+				outputs: (await this.getConcretePaths(route)).map(({ path }) => ({ path, outFile: this.getOutFile(path) })),
+			})
+		}
+
+		const staticMappings: StaticMappingInfo[] = []
+		for (const [route, dir] of this.staticMappings) {
+			staticMappings.push({ route, dir, fileCount: (await this.listStaticFiles(route, dir)).length })
+		}
+
+		const { pageOutFiles } = await this.getPages()
+		const { conflicts } = await this.getStaticOutputs(pageOutFiles)
+
+		return { routes, staticMappings, conflicts }
+	}
+
+	/**
+	 * Rebuilds the outputs affected by changes to static files and modules, see {@link watchBuild}
+	 * @param outDir The directory the site was built in
+	 * @param files The static files that changed, along with their static mappings
+	 * @param modules The file paths of the modules that changed
+	 * @param concurrency The maximum number of routes to render at once
+	 * @param compress Whether to write pre-compressed variants of changed outputs, see {@link BuildOptions.compress}
+	 */
+	private async rebuildChanges(
+		outDir: string,
+		files: { route: string, staticDir: string, file: string }[],
+		modules: string[],
+		concurrency: number,
+		compress: BuildOptions['compress'],
+	): Promise<void> {
+		const start = Date.now()
+		const names = [...files.map(({ staticDir, file }) => joinPaths(staticDir, file)), ...modules]
+		console.log(`Rebuilding after changes to ${names.join(', ')}...`)
+
+		// Outputs that are not affected are kept from the previous build
+		const oldManifest = await this.readManifest(outDir)
+		const state: BuildState = { outDir, oldManifest, newManifest: { version: manifestVersion, files: { ...oldManifest.files } } }
+
+		const { pages, pageOutFiles } = await this.getPages()
+		const { outputs } = await this.getStaticOutputs(pageOutFiles)
+		const resources = await this.getRenderResources('build')
+		let changedOutputs = 0
+
+		// Fingerprinted URLs change along with the files, so all pages need to be rendered again
+		let renderAll = false
 
-			for (const [route, staticDir] of this.staticMappings) {
-				if (path.startsWith(route)) {
-					// Basic path sanitization
-					let dirPath = path.substring(route.length)
-					if (!dirPath.startsWith('/')) {
-						dirPath = '/' + dirPath
+		for (const { route, staticDir, file } of files) {
+			const outFileRel = joinPaths(route, file)
+			const sourcePath = joinPaths(staticDir, file)
+			renderAll ||= this.staticMappingOptions.get(route)?.fingerprint ?? false
+
+			if (!await exists(sourcePath)) {
+				// Removing a directory removes everything that was copied from it
+				for (const existing of Object.keys(state.newManifest.files)) {
+					if ((existing === outFileRel || existing.startsWith(outFileRel + '/')) && !pageOutFiles.has(existing)) {
+						await rm(joinPaths(outDir, existing), { force: true })
+						await this.removeEmptyParents(outDir, existing)
+						delete state.newManifest.files[existing]
+						console.log(`  Removed ${existing}`)
+						changedOutputs++
 					}
-					dirPath = dirPath.replace(/\/\.{2,}/g, '')
+				}
+				continue
+			}
+
+			// A changed directory affects every file in it
+			for (const [sourceOutFileRel, staticFile] of outputs) {
+				if (staticFile.route !== route || (staticFile.file !== file && !staticFile.file.startsWith(file + '/'))) {
+					continue
+				}
 
-					const filePath = joinPaths(staticDir, dirPath)
+				if (await this.copyStaticFile(state, staticFile, sourceOutFileRel)) {
+					console.log(`  Copied ${sourceOutFileRel}`)
+					changedOutputs++
+				}
 
-					try {
-						const fileInfo = await stat(filePath)
+				const asset = resources.assets.get(sourceOutFileRel)
+				if (asset !== undefined && await this.copyStaticFile(state, staticFile, asset.url)) {
+					console.log(`  Copied ${asset.url}`)
+					changedOutputs++
+				}
+			}
+		}
 
-						if (!fileInfo.isFile()) {
-							continue
-						}
+		if (resources.assets.size > 0) {
+			const assetManifest: Record<string, string> = {}
+			for (const [path, asset] of resources.assets) {
+				assetManifest[path] = asset.url
+			}
 
-						return new Response(Bun.file(filePath))
-					} catch (err) {
-						if ('code' in (err as any) && (err as any).code === 'ENOENT') {
-							// File not found
-						} else {
-							throw err
-						}
+			await this.writeOutput(state, '/' + this.assetManifestFilename, JSON.stringify(assetManifest, null, '\t'))
+		}
+
+		// Only the changed modules are reloaded, since they are the ones that were imported by the renderers
+		for (const modulePath of modules) {
+			delete require.cache[modulePath]
+		}
+
+		const affectedPages = renderAll ? pages : pages.filter(page => {
+			const modulePath = moduleRendererPaths.get(page.renderer)
+			return modulePath !== undefined && modules.includes(resolveModulePath(modulePath))
+		})
+		await runConcurrently(affectedPages, concurrency, async page => {
+			const { report, written } = await this.renderPage(state, page, resources, new Map())
+			if (written) {
+				console.log(`  Rendered ${report.outFile}`)
+				changedOutputs++
+			}
+		})
+
+		await this.writeImageVariants(state, resources, concurrency)
+
+		if (compress) {
+			await this.writeCompressedVariants(state, compress === true ? {} : compress, concurrency)
+		}
+
+		await Bun.write(joinPaths(outDir, this.manifestFilename), JSON.stringify(state.newManifest, null, '\t'))
+
+		console.log(`Rebuilt in ${Date.now() - start}ms, ${changedOutputs} output${changedOutputs === 1 ? '' : 's'} changed`)
+	}
+
+	/**
+	 * Builds the site, and then keeps the output directory up to date as files change, until the returned function is called or the process exits.
+	 *
+	 * Static mapping directories and the modules of routes set with a module path or {@link moduleRenderer} are watched.
+	 * Changed static files are copied again (or removed if they were deleted), and routes whose modules changed are rendered again.
+	 * Only the changed modules themselves are reloaded, not the modules they import.
+	 * Changes are debounced, so that saving several files at once results in a single rebuild.
+	 *
+	 * @param outDir The directory to render the site in
+	 * @param clearOutDir Whether to delete the contents of the output directory before the initial build
+	 * @param options Additional build options, which are used for the initial build (incremental builds are always enabled, since rebuilds rely on the build manifest)
+	 * @returns A function that stops watching, which resolves once a rebuild that is in progress finished
+	 */
+	public async watchBuild(outDir: string, clearOutDir: boolean, options: BuildOptions = {}): Promise<() => Promise<void>> {
+		const concurrency = options.concurrency ?? 8
+
+		await this.build(outDir, clearOutDir, { ...options, incremental: true })
+
+		const changedFiles = new Map<string, { route: string, staticDir: string, file: string }>()
+		const changedModules = new Set<string>()
+
+		let timeout: Timer | null = null
+		let rebuild = Promise.resolve()
+		const watchers: FSWatcher[] = []
+
+		// Debounce events, since editors can produce several changes at once
+		const schedule = () => {
+			if (timeout !== null) {
+				clearTimeout(timeout)
+			}
+			timeout = setTimeout(() => {
+				timeout = null
+
+				// Rebuilds run one at a time, since they all update the build manifest
+				rebuild = rebuild.then(async () => {
+					const files = [...changedFiles.values()]
+					const modules = [...changedModules]
+					changedFiles.clear()
+					changedModules.clear()
+
+					if (files.length > 0 || modules.length > 0) {
+						await this.rebuildChanges(outDir, files, modules, concurrency, options.compress)
 					}
+				}).catch(err => {
+					console.error('Rebuild failed:', err)
+				})
+			}, 100)
+		}
+
+		for (const [route, staticDir] of this.staticMappings) {
+			watchers.push(watch(staticDir, { recursive: true }, (_, filename) => {
+				const file = filename?.toString()
+				if (file !== undefined) {
+					changedFiles.set(joinPaths(staticDir, file), { route, staticDir, file })
+					schedule()
 				}
+			}))
+		}
+
+		// Directories are watched rather than the modules themselves, since editors may replace files when saving them
+		const moduleDirs = new Map<string, Set<string>>()
+		for (const renderer of this.routes.values()) {
+			const modulePath = moduleRendererPaths.get(renderer)
+			if (modulePath !== undefined) {
+				const resolved = resolveModulePath(modulePath)
+				const dir = dirname(resolved)
+				moduleDirs.set(dir, (moduleDirs.get(dir) ?? new Set()).add(resolved))
 			}
+		}
+		for (const [dir, modules] of moduleDirs) {
+			watchers.push(watch(dir, (_, filename) => {
+				const file = filename?.toString()
+				const modulePath = file === undefined ? undefined : joinPaths(dir, file)
+				if (modulePath !== undefined && modules.has(modulePath)) {
+					changedModules.add(modulePath)
+					schedule()
+				}
+			}))
+		}
 
-			// If it didn't return by now, then no static file was found
+		console.log('Watching for changes...')
 
-			const options = {
-				status: 404,
+		return async () => {
+			for (const watcher of watchers) {
+				watcher.close()
+			}
+			if (timeout !== null) {
+				clearTimeout(timeout)
+				timeout = null
 			}
 
-			const notFoundRenderer = this.routes.get('/' + this.notFoundFilename)
-			if (notFoundRenderer === undefined) {
-				return new Response(
-					'No route was found, and no 404 page was found either',
-					options,
-				)
-			} else {
-				return new Response(
-					await this.toResponseBody(await notFoundRenderer()),
-					options,
-				)
+			await rebuild
+		}
+	}
+
+	/**
+	 * Removes the directories containing a removed output file that are left empty, up to the output directory
+	 * @param outDir The output directory
+	 * @param outFileRel The removed file's path, relative to the output directory
+	 */
+	private async removeEmptyParents(outDir: string, outFileRel: string): Promise<void> {
+		for (let dir = dirname(outFileRel); dir !== '/' && dir !== '.'; dir = dirname(dir)) {
+			const path = joinPaths(outDir, dir)
+			try {
+				if ((await readdir(path)).length > 0) {
+					return
+				}
+				await rmdir(path)
+			} catch (err) {
+				// The directory may have been removed already, along with another file in it
+				if ((err as any).code === 'ENOENT') {
+					continue
+				}
+				throw err
 			}
-		} else {
-			// Route was found, render it
-			return new Response(await this.toResponseBody(await renderer()))
 		}
 	}
 
 	/**
-	 * Sets the filename to use for index pages
-	 * @param filename The filename to use for index pages
-	 * @returns This, to be used fluently
+	 * Writes an output file if its contents changed since the last build.
+	 * Streams are written to a temporary file as they are hashed, so that they never need to be held in memory, and the file only replaces the output file if it changed.
+	 *
+	 * @param state The {@link BuildState}
+	 * @param outFileRel The output file path, relative to the output directory
+	 * @param data The file's contents
+	 * @returns Whether the file was written
 	 */
-	public setIndexFilename(filename: string) {
-		this.indexFilename = filename
+	private async writeOutput(state: BuildState, outFileRel: string, data: ResponseBody): Promise<boolean> {
+		const outFile = joinPaths(state.outDir, outFileRel)
+		const old = state.oldManifest.files[outFileRel]
+		await mkdir(dirname(outFile), { recursive: true })
+
+		if (!(data instanceof ReadableStream)) {
+			const hash = createHash('sha256').update(data).digest('hex')
+			state.newManifest.files[outFileRel] = { hash }
+
+			if (old !== undefined && old.hash === hash && await exists(outFile)) {
+				return false
+			}
+
+			await Bun.write(outFile, data)
+			return true
+		}
+
+		const tempFile = outFile + '.ssg-tmp'
+		const hasher = createHash('sha256')
+		const writer = Bun.file(tempFile).writer()
+		try {
+			for await (const chunk of data) {
+				hasher.update(chunk)
+				writer.write(chunk)
+			}
+			await writer.end()
+		} catch (err) {
+			await writer.end()
+			await rm(tempFile, { force: true })
+			throw err
+		}
+
+		const hash = hasher.digest('hex')
+		state.newManifest.files[outFileRel] = { hash }
+
+		if (old !== undefined && old.hash === hash && await exists(outFile)) {
+			await rm(tempFile)
+			return false
+		}
+
+		await rename(tempFile, outFile)
+		return true
+	}
+
+	/**
+	 * Copies a static file if it changed since the last build, applying its mapping's symbolic link policy and {@link StaticTransform}s
+	 * @param state The {@link BuildState}
+	 * @param staticFile The static file
+	 * @param outFileRel The output file path, relative to the output directory
+	 * @returns Whether the file was copied
+	 */
+	private async copyStaticFile(state: BuildState, staticFile: StaticFileMatch, outFileRel: string): Promise<boolean> {
+		const options = this.staticMappingOptions.get(staticFile.route) ?? {}
+		const sourcePath = staticFile.sourceFile
+		const outFile = joinPaths(state.outDir, outFileRel)
+		const old = state.oldManifest.files[outFileRel]
+
+		if (options.symlinks === 'link' && (await lstat(sourcePath)).isSymbolicLink()) {
+			const target = await readlink(sourcePath)
+			state.newManifest.files[outFileRel] = { hash: createHash('sha256').update(target).digest('hex'), link: target }
+
+			const isLink = await lstat(outFile).then(outStat => outStat.isSymbolicLink(), () => false)
+			if (old?.link === target && isLink) {
+				return false
+			}
+
+			await mkdir(dirname(outFile), { recursive: true })
+			await rm(outFile, { recursive: true, force: true })
+			await symlink(target, outFile)
+			return true
+		}
+
+		// Writing to a link from a previous build would overwrite its target
+		if (old?.link !== undefined) {
+			await rm(outFile, { force: true })
+		}
+
+		const transformed = await this.transformStaticFile(staticFile)
+		if (transformed !== null) {
+			return await this.writeOutput(state, outFileRel, transformed)
+		}
+
+		const sourceStat = await stat(sourcePath)
+		const outFileExists = old !== undefined && old.link === undefined && await exists(outFile)
+
+		// Trust the size and modification time if they did not change
+		if (
+			outFileExists &&
+			old.source !== undefined &&
+			old.source.size === sourceStat.size &&
+			old.source.mtimeMs === sourceStat.mtimeMs
+		) {
+			state.newManifest.files[outFileRel] = old
+			return false
+		}
+
+		const hash = await hashFile(sourcePath)
+		state.newManifest.files[outFileRel] = {
+			hash,
+			source: { size: sourceStat.size, mtimeMs: sourceStat.mtimeMs },
+		}
+
+		if (outFileExists && old.hash === hash) {
+			return false
+		}
+
+		await mkdir(dirname(outFile), { recursive: true })
+		await Bun.write(outFile, Bun.file(sourcePath))
+		return true
+	}
+
+	/**
+	 * Renders a page and writes it to the output directory if it changed since the last build
+	 * @param state The {@link BuildState}
+	 * @param page The {@link Page} to render
+	 * @param resources The {@link RenderResources} to use
+	 * @param pathHeaders The map to add the page's headers to, keyed by path
+	 * @returns The page's {@link PageReport}, and whether its output file was written
+	 */
+	private async renderPage(
+		state: BuildState,
+		{ route, renderer, path, params }: Page,
+		resources: RenderResources,
+		pathHeaders: Map<string, Record<string, string>>,
+	): Promise<{ report: PageReport, written: boolean }> {
+		const start = performance.now()
+
+		const { outFile, body, headers } = await this.renderPageOutput({ route, renderer, path, params }, resources)
+		if (Object.keys(headers).length > 0) {
+			pathHeaders.set(path, headers)
+		}
 
-		return this
+		const written = await this.writeOutput(state, outFile, body)
+
+		const report: PageReport = {
+			route,
+			path,
+			outFile,
+			renderTimeMs: performance.now() - start,
+			size: (await stat(joinPaths(state.outDir, outFile))).size,
+		}
+
+		return { report, written }
 	}
 
 	/**
-	 * Sets the filename to use for the not found (404) page
-	 * @param filename The filename to use for the not found page
-	 * @returns This, to be used fluently
+	 * Renders a page the way it is rendered when building, without writing it anywhere
+	 * @param page The {@link Page} to render
+	 * @param resources The {@link RenderResources} to use
+	 * @returns The page's output file, body and content type, and the headers to write to host configuration files
 	 */
-	public setNotFoundFilename(filename: string) {
-		this.notFoundFilename = filename
+	private async renderPageOutput(
+		{ route, renderer, path, params }: Page,
+		resources: RenderResources,
+	): Promise<{ outFile: string, body: ResponseBody, contentType: string, headers: Record<string, string> }> {
+		const ctx = this.createContext(route, path, params, 'build', resources)
+		const rendered = await this.runRenderer(renderer, ctx)
+		const unwrapped = this.unwrapRenderResult(rendered, ctx)
 
-		return this
+		// Pages are only buffered if post-processing or plugins need them, and streamed to their files otherwise
+		const { body, contentType, headers } = await this.finishRender(unwrapped, ctx)
+
+		// Only explicit content types are included, since hosts determine them from extensions otherwise
+		if ((isRouteResponse(rendered) && rendered.contentType !== undefined) || contentType !== unwrapped.contentType) {
+			headers['Content-Type'] = contentType
+		}
+
+		return { outFile: ctx.outFile, body, contentType, headers }
 	}
 
 	/**
-	 * Sets a renderer for a route.
-	 * If the route ends with a trailing slash, {@link indexFilename} will be appended to it internally at build/serve time.
-	 *
-	 * If you want your {@link Renderer} to be hot reloaded with Bun's hot reload feature, specify a module path, or use {@link moduleRenderer}.
-	 * Hot reload will not work when providing a {@link Renderer} directly.
+	 * Renders pages in memory without writing anything to disk, which is useful for testing.
+	 * Pages are enumerated and rendered the same way as in {@link build}, including output paths, post-processing and plugin render hooks.
 	 *
-	 * @param route The route
-	 * @param renderer The {@link Renderer} for the route, or a path to the module that exports a {@link Renderer} or {@link RenderResult}
-	 * @returns This, to be used fluently
+	 * @param paths The concrete paths or routes of the pages to render, or undefined to render all pages
+	 * @returns The {@link RenderedPage}s, in the order they were enumerated
 	 */
-	public setRoute(route: string, renderer: Renderer | string) {
-		if (typeof renderer === 'string') {
-			this.routes.set(route, moduleRenderer(renderer))
-		} else {
-			this.routes.set(route, renderer)
+	public async renderPages(paths?: string[]): Promise<RenderedPage[]> {
+		const { pages } = await this.getPages()
+
+		for (const path of paths ?? []) {
+			if (!pages.some(page => page.path === path || page.route === path)) {
+				throw new Error(`No route renders ${path}`)
+			}
 		}
+		const selected = paths === undefined ? pages : pages.filter(page => paths.includes(page.path) || paths.includes(page.route))
 
-		return this
+		const resources = await this.getRenderResources('build')
+		const res: RenderedPage[] = []
+		for (const page of selected) {
+			const { outFile, body, contentType, headers } = await this.renderPageOutput(page, resources)
+			const data = await this.toFileData(body)
+
+			res.push({
+				route: page.route,
+				path: page.path,
+				outFile,
+				contentType,
+				headers,
+				body: data instanceof Uint8Array && (contentType.startsWith('text/') || isCompressibleType(contentType))
+					? new TextDecoder().decode(data)
+					: data,
+			})
+		}
+
+		return res
 	}
 
 	/**
-	 * Maps a route to a static resource directory
-	 * @param route The route where the resources will be served from
-	 * @param directory The directory that will be the source of the static files
-	 * @returns This, to be used fluently
+	 * Prints build failures grouped by route, along with the most relevant source location of each error
+	 * @param failures The {@link BuildFailure}s
 	 */
-	public mapStatic(route: string, directory: string) {
-		if (!route.startsWith('/')) {
-			throw new Error(
-				'Static routes must begin with an initial slash (using "/ is valid for root)',
-			)
-		}
-		if (!route.endsWith('/')) {
-			throw new Error(
-				'Static routes must end with a trailing slash (using "/" is valid for root)',
-			)
+	private printBuildFailures(failures: BuildFailure[]): void {
+		const byRoute = new Map<string, BuildFailure[]>()
+		for (const failure of failures) {
+			byRoute.set(failure.route, [...(byRoute.get(failure.route) ?? []), failure])
 		}
 
-		this.staticMappings.set(route, directory)
+		console.error(`\n${failures.length} page${failures.length === 1 ? '' : 's'} failed to render:`)
+		for (const [route, routeFailures] of byRoute) {
+			console.error(`\n${route}`)
 
-		return this
+			for (const { path, error } of routeFailures) {
+				const location = findErrorLocation(error)
+				console.error(`\t${path}: ${formatErrorMessage(error).replaceAll('\n', '\n\t\t')}`)
+				if (location !== null) {
+					console.error(`\t\tat ${location.file}:${location.line}:${location.column}`)
+				}
+			}
+		}
+		console.error()
 	}
 
 	/**
-	 * Sets a renderer for the not found (404) page
-	 *
-	 * If you want your {@link Renderer} to be hot reloaded with Bun's hot reload feature, specify a module path, or use {@link moduleRenderer}.
-	 * Hot reload will not work when providing a {@link Renderer} directly.
+	 * Writes the image variants referenced by rendered pages to the output directory
+	 * @param state The {@link BuildState}
+	 * @param resources The {@link RenderResources} the pages were rendered with
+	 * @param concurrency The maximum number of variants to generate at once
+	 */
+	private async writeImageVariants(state: BuildState, resources: RenderResources, concurrency: number): Promise<void> {
+		// Image variants are only known once the pages that reference them are rendered
+		await runConcurrently([...resources.images.values()], concurrency, async variant => {
+			const variantFile = await this.getImageVariantFile(variant)
+			if (await this.writeOutput(state, variant.url, Bun.file(variantFile).stream())) {
+				console.log(`Writing image variant ${joinPaths(state.outDir, variant.url)}...`)
+			}
+		})
+	}
+
+	/**
+	 * Writes pre-compressed variants of the text files written by a build.
+	 * Variants are only compressed again if the original file changed since the last build, and variants of files that changed or were removed are deleted if they are not written again.
 	 *
-	 * @param renderer The {@link Renderer} for the route, or a path to the module that exports a {@link Renderer} or {@link RenderResult}
-	 * @returns This, to be used fluently
+	 * @param state The {@link BuildState}
+	 * @param options The {@link CompressionOptions}
+	 * @param concurrency The maximum number of files to compress at once
 	 */
-	public setNotFound(renderer: Renderer | string) {
-		const route = '/' + this.notFoundFilename
+	private async writeCompressedVariants(state: BuildState, options: CompressionOptions, concurrency: number): Promise<void> {
+		const encodings = options.encodings ?? ['gzip', 'br']
+		const threshold = options.threshold ?? defaultCompressionThreshold
+		for (const encoding of encodings) {
+			if (!(encoding in compressionExtensions)) {
+				throw new Error(`Unknown compression encoding "${encoding}", must be "gzip" or "br"`)
+			}
+		}
 
-		if (typeof renderer === 'string') {
-			this.routes.set(route, moduleRenderer(renderer))
-		} else {
-			this.routes.set(route, renderer)
+		// Rebuilds start from the previous manifest, so it can contain variants whose originals changed or no longer exist
+		for (const [variantRel, variant] of Object.entries(state.newManifest.files)) {
+			const extension = Object.values(compressionExtensions).find(ext => variantRel.endsWith(ext))
+			if (variant.compressedFrom === undefined || extension === undefined) {
+				continue
+			}
+
+			const original = state.newManifest.files[variantRel.substring(0, variantRel.length - extension.length)]
+			if (original?.hash !== variant.compressedFrom) {
+				await rm(joinPaths(state.outDir, variantRel), { force: true })
+				delete state.newManifest.files[variantRel]
+			}
 		}
 
-		return this
+		const files = Object.entries(state.newManifest.files).filter(([outFileRel]) => isCompressibleType(getMimeType(outFileRel)))
+
+		let count = 0
+		await runConcurrently(files, concurrency, async ([outFileRel, entry]) => {
+			const outFile = joinPaths(state.outDir, outFileRel)
+			const file = Bun.file(outFile)
+			if (file.size < threshold) {
+				return
+			}
+
+			let data: Uint8Array | null = null
+			for (const encoding of encodings) {
+				const variantRel = outFileRel + compressionExtensions[encoding]
+				const old = state.oldManifest.files[variantRel]
+				if (old !== undefined && old.compressedFrom === entry.hash && await exists(joinPaths(state.outDir, variantRel))) {
+					state.newManifest.files[variantRel] = old
+					continue
+				}
+
+				data ??= new Uint8Array(await file.arrayBuffer())
+				const compressed = await compressData(data, encoding)
+				if (compressed.length >= data.length) {
+					continue
+				}
+
+				await this.writeOutput(state, variantRel, compressed)
+				state.newManifest.files[variantRel].compressedFrom = entry.hash
+				count++
+			}
+		})
+
+		if (count > 0) {
+			console.log(`Wrote ${count} compressed variant${count === 1 ? '' : 's'}`)
+		}
 	}
 
 	/**
-	 * Builds the site, rendering it in the specified directory
+	 * Builds the site, rendering it in the specified directory.
+	 *
+	 * Routes are rendered concurrently, and unless disabled in the options, a build manifest with content hashes is kept in the output directory.
+	 * When building into a directory that was not cleared, the manifest is used to skip writing route outputs that did not change, and copying static files whose size, modification time and hash did not change.
+	 *
+	 * If enabled in the options, internal links in the emitted HTML files are checked after rendering.
+	 *
 	 * @param outDir The directory to render the site in
 	 * @param clearOutDir Whether to delete the contents of the output directory before building
+	 * @param options Additional build options
+	 * @returns The build result
 	 */
-	public async build(outDir: string, clearOutDir: boolean): Promise<void> {
+	public async build(outDir: string, clearOutDir: boolean, options: BuildOptions = {}): Promise<BuildResult> {
+		const start = performance.now()
+		const concurrency = options.concurrency ?? 8
+		const incremental = options.incremental ?? true
+		const prune = options.prune ?? false
+		const checkLinks = options.checkLinks ?? false
+		const hostFiles = options.hostFiles ?? []
+		for (const file of hostFiles) {
+			if (!['redirects', 'headers', 'nginx'].includes(file)) {
+				throw new Error(`Unknown host file "${file}", must be one of "redirects", "headers" or "nginx"`)
+			}
+		}
+
+		const hookCtx: BuildHookContext = { outDir, options }
+		for (const plugin of this.plugins) {
+			try {
+				await plugin.beforeBuild?.(hookCtx)
+			} catch (err) {
+				throw this.createPluginError(plugin, 'beforeBuild', err)
+			}
+		}
+
 		const outDirExists = await exists(outDir)
 
 		if (outDirExists) {
@@ -574,55 +6298,241 @@ export class SiteGenerator {
 			await mkdir(outDir, { recursive: true })
 		}
 
-		// Copy static files first so that routes will overwrite files if they have the same name
+		const oldManifest: BuildManifest = incremental ? await this.readManifest(outDir) : { version: manifestVersion, files: {} }
+		const newManifest: BuildManifest = { version: manifestVersion, files: {} }
+
+		// Enumerate all pages first so that static files that would be overwritten by routes can be skipped
+		const { pages, pageOutFiles } = await this.getPages()
+
+		const state: BuildState = { outDir, oldManifest, newManifest }
+
+		const resources = await this.getRenderResources('build')
+		const { assets } = resources
+
+		// Routes and earlier static mappings take precedence over static files that would write the same output files
+		const { outputs: staticOutputs, conflicts } = await this.getStaticOutputs(pageOutFiles)
+		for (const conflict of conflicts) {
+			const policy = this.staticMappingOptions.get(conflict.staticRoute)?.conflicts ?? 'warn'
+			if (policy === 'error') {
+				throw new Error(`Static file ${conflict.sourceFile} conflicts with ${conflict.route}, since both write ${conflict.outFile}`)
+			} else if (policy === 'warn') {
+				console.warn(`Warning: Static file ${conflict.sourceFile} is not copied, since ${conflict.route} also writes ${conflict.outFile}`)
+			}
+		}
+
 		for (const [route, staticDir] of this.staticMappings) {
-			const copyDir = joinPaths(outDir, route)
 			console.log(`Mapping ${staticDir} to ${route}...`)
-			await copyRecursive(staticDir, copyDir)
 		}
 
-		for (const [route, renderer] of this.routes) {
-			const render = await renderer()
-
-			let res: string | Uint8Array
-			if (typeof render === 'string') {
-				res = render
-			} else if (isObjectJsxElement(render)) {
-				res = await renderToString(render)
-			} else if (render instanceof ReadableStream) {
-				res = ''
-				for await (const chunk of render) {
-					res += streamDecoder.decode(chunk)
-				}
-			} else if (render instanceof Uint8Array) {
-				res = render
+		await runConcurrently([...staticOutputs], concurrency, async ([outFileRel, staticFile]) => {
+			await this.copyStaticFile(state, staticFile, outFileRel)
+
+			const asset = assets.get(outFileRel)
+			if (asset !== undefined) {
+				await this.copyStaticFile(state, staticFile, asset.url)
+			}
+		})
+
+		if (assets.size > 0) {
+			const assetManifest: Record<string, string> = {}
+			for (const [path, asset] of assets) {
+				assetManifest[path] = asset.url
+			}
+
+			await this.writeOutput(state, '/' + this.assetManifestFilename, JSON.stringify(assetManifest, null, '\t'))
+		}
+
+		for (const plugin of this.plugins) {
+			try {
+				await plugin.afterStaticCopy?.(hookCtx)
+			} catch (err) {
+				throw this.createPluginError(plugin, 'afterStaticCopy', err)
+			}
+		}
+
+		for (const [name, bundle] of resources.clientBundles) {
+			console.log(`Writing client bundle ${name}...`)
+
+			for (const [path, file] of bundle.files) {
+				await this.writeOutput(state, path, new Uint8Array(await file.arrayBuffer()))
+			}
+		}
+
+		// Headers for host configuration files, keyed by path
+		const pathHeaders = new Map<string, Record<string, string>>()
+
+		const pageReports: PageReport[] = []
+		const failures: BuildFailure[] = []
+
+		await runConcurrently(pages, concurrency, async page => {
+			try {
+				const { report, written } = await this.renderPage(state, page, resources, pathHeaders)
+				pageReports.push(report)
+
+				const outFile = joinPaths(outDir, report.outFile)
+				if (written) {
+					console.log(`Rendering ${outFile}...`)
+				} else {
+					console.log(`Unchanged ${outFile}`)
+				}
+			} catch (err) {
+				console.error(`Failed to render ${page.path}`)
+				failures.push({ route: page.route, path: page.path, error: err })
+			}
+		})
+
+		await this.writeImageVariants(state, resources, concurrency)
+
+		if (failures.length > 0) {
+			this.printBuildFailures(failures)
+
+			if (!options.continueOnError) {
+				throw new AggregateError(
+					failures.map(({ route, path, error }) => new Error(`Failed to render ${path} (route ${route})`, { cause: error })),
+					`${failures.length} page${failures.length === 1 ? '' : 's'} failed to render`,
+				)
+			}
+		}
+
+		for (const [from, redirect] of this.redirects) {
+			const outFileRel = this.getOutFile(from)
+			if (await this.writeOutput(state, outFileRel, renderRedirectPage(this.resolveRedirectTarget(redirect.to)))) {
+				console.log(`Writing redirect ${joinPaths(outDir, outFileRel)}...`)
+			}
+		}
+
+		if (hostFiles.includes('redirects')) {
+			let redirectsFile = ''
+			for (const [from, redirect] of this.redirects) {
+				redirectsFile += `${encodePath(this.withBasePath(from))} ${this.resolveRedirectTarget(redirect.to)} ${redirect.status}\n`
+			}
+
+			await this.writeOutput(state, '/_redirects', redirectsFile)
+		}
+
+		if (hostFiles.includes('headers')) {
+			let headersFile = ''
+			for (const [path, headers] of pathHeaders) {
+				headersFile += encodePath(this.withBasePath(this.getCanonicalPath(path))) + '\n'
+				for (const [name, value] of Object.entries(headers)) {
+					headersFile += `  ${name}: ${value}\n`
+				}
+			}
+
+			await this.writeOutput(state, '/_headers', headersFile)
+		}
+
+		if (hostFiles.includes('nginx')) {
+			let nginxConf = ''
+			for (const [from, redirect] of this.redirects) {
+				nginxConf += `location = ${encodePath(this.withBasePath(from))} {\n\treturn ${redirect.status} ${this.resolveRedirectTarget(redirect.to)};\n}\n`
+			}
+			for (const [path, headers] of pathHeaders) {
+				nginxConf += `location = ${encodePath(this.withBasePath(this.getCanonicalPath(path)))} {\n`
+				for (const [name, value] of Object.entries(headers)) {
+					if (name.toLowerCase() === 'content-type') {
+						// Clearing the types makes nginx use the default type regardless of the extension
+						nginxConf += `\ttypes {}\n\tdefault_type "${value}";\n`
+					} else {
+						nginxConf += `\tadd_header ${name} "${value}";\n`
+					}
+				}
+				nginxConf += '}\n'
+			}
+
+			await this.writeOutput(state, '/_nginx.conf', nginxConf)
+		}
+
+		const outFiles = new Set(Object.keys(newManifest.files))
+
+		if (options.compress) {
+			await this.writeCompressedVariants(state, options.compress === true ? {} : options.compress, concurrency)
+		}
+
+		// Files from the previous build that were not written by this one no longer map to anything
+		for (const [outFileRel, entry] of Object.entries(oldManifest.files)) {
+			if (outFileRel in newManifest.files) {
+				continue
+			}
+
+			const outFile = joinPaths(outDir, outFileRel)
+			if (prune) {
+				console.log(`Pruning ${outFile}...`)
+				await rm(outFile, { force: true })
+				await this.removeEmptyParents(outDir, outFileRel)
 			} else {
-				throw new Error('Invalid render result. Must be one of the following types: string, Uint8Array, ReadableStream, or JSX.Element.')
+				console.warn(`Warning: ${outFile} no longer maps to any route or static file`)
+
+				// Keep it in the manifest so that it will continue to be reported
+				newManifest.files[outFileRel] = entry
 			}
+		}
 
-			let outFile = joinPaths(outDir, route)
-			if (outFile.endsWith('/'))
-				outFile += this.indexFilename
+		if (incremental) {
+			await Bun.write(joinPaths(outDir, this.manifestFilename), JSON.stringify(newManifest, null, '\t'))
+		}
 
-			console.log(`Rendering ${outFile}...`)
-			await mkdir(dirname(outFile), { recursive: true })
-			await Bun.write(outFile, res)
+		let brokenLinks: BrokenLink[] = []
+		if (checkLinks) {
+			console.log('Checking links...')
+			brokenLinks = await this.findBrokenLinks(outDir, outFiles)
+
+			if (brokenLinks.length > 0) {
+				console.warn(`Warning: Found ${brokenLinks.length} broken link(s):`)
+				for (const link of brokenLinks) {
+					console.warn(`\t${link.page}: ${link.attribute}="${link.url}"`)
+				}
+			}
+		}
+
+		const report: BuildReport = {
+			date: new Date().toISOString(),
+			durationMs: performance.now() - start,
+			pages: pageReports,
+			conflicts,
+		}
+		if (options.reportFile !== undefined) {
+			await Bun.write(options.reportFile, JSON.stringify(report, null, '\t'))
+			console.log(`Wrote build report to '${options.reportFile}'`)
+		}
+
+		const result: BuildResult = { brokenLinks, report, failures }
+		for (const plugin of this.plugins) {
+			try {
+				await plugin.afterBuild?.({ ...hookCtx, result })
+			} catch (err) {
+				throw this.createPluginError(plugin, 'afterBuild', err)
+			}
 		}
 
 		console.log(`Done. Rendered site is available in '${outDir}'.`)
+
+		return result
 	}
 
 	/**
-	 * Starts a webserver on the specified port and optionally hostname that serves the site
+	 * Starts a webserver on the specified port and optionally hostname that serves the site.
+	 *
+	 * If live reload is enabled, HTML pages will reload when a static file, a collection file or a {@link moduleRenderer} module changes.
+	 * Changes to CSS files in static mapping directories are swapped in without reloading the page.
+	 * Reloading modules requires running Bun with the `--hot` option.
+	 *
 	 * @param port The port to run on
 	 * @param hostname The hostname to run on (defaults to '127.0.0.1')
 	 * @param silent Whether to avoid logging to the console (defaults to false)
+	 * @param liveReload Whether to enable live reload (defaults to true)
 	 */
 	public serve(
 		port: number,
 		hostname = '127.0.0.1',
 		silent = false,
+		liveReload = true,
 	): void {
+		this.liveReload = liveReload
+		if (liveReload) {
+			this.startLiveReload()
+		}
+
 		Bun.serve({
 			port,
 			hostname,
@@ -630,55 +6540,303 @@ export class SiteGenerator {
 		})
 
 		if (!silent) {
-			console.log(`Listening on ${hostname}:${port}`)
+			console.log(`Listening on ${hostname}:${port}${this.basePath}`)
+		}
+	}
+
+	/**
+	 * Formats a {@link SiteInfo} for the `routes` CLI command
+	 * @param info The {@link SiteInfo}
+	 * @returns The formatted info
+	 */
+	private formatSiteInfo(info: SiteInfo): string {
+		let str = 'Routes:\n'
+		for (const { route, kind, modulePath, outputs } of info.routes) {
+			const renderer = kind === 'module' ? `module ${modulePath}` : 'inline'
+
+			// Static routes are listed on a single line, since they only have one output
+			if (outputs.length === 1 && outputs[0].path === route) {
+				str += `\t${route} (${renderer}) -> ${outputs[0].outFile}\n`
+			} else {
+				str += `\t${route} (${renderer})\n`
+				for (const { path, outFile } of outputs) {
+					str += `\t\t${path} -> ${outFile}\n`
+				}
+			}
+		}
+
+		if (info.staticMappings.length > 0) {
+			str += '\nStatic mappings:\n'
+			for (const { route, dir, fileCount } of info.staticMappings) {
+				str += `\t${route} <- ${dir} (${fileCount} file${fileCount === 1 ? '' : 's'})\n`
+			}
+		}
+
+		if (info.conflicts.length > 0) {
+			str += '\nConflicts (the routes take precedence):\n'
+			for (const { outFile, route, sourceFile } of info.conflicts) {
+				str += `\t${outFile} is written by ${route} and static file ${sourceFile}\n`
+			}
+		}
+
+		return str.trimEnd()
+	}
+
+	/**
+	 * Registers the built-in `build`, `serve`, `routes` and `help` commands
+	 */
+	private addBuiltInCommands(): void {
+		const basePathOption: CliOption = {
+			name: 'base-path',
+			type: 'string',
+			valueName: 'path',
+			description: 'The base path the site is served under (overrides the one set in code)',
+		}
+
+		this.addCommand({
+			name: 'build',
+			description: 'Builds the site into a directory',
+			options: [
+				{ name: 'out', short: 'o', type: 'string', valueName: 'dir', default: 'dist', description: 'The directory to build the site into' },
+				{ name: 'clear-out', default: true, description: 'Whether to delete the contents of the output directory before building' },
+				{ name: 'concurrency', type: 'int', valueName: 'n', default: 8, description: 'The maximum number of routes to render at once' },
+				{ name: 'incremental', default: true, description: 'Whether to skip writing unchanged files using the build manifest' },
+				{ name: 'prune', description: 'Deletes files from previous builds that no longer map to any route or static file' },
+				{ name: 'check-links', description: 'Checks internal links in the emitted HTML files and reports broken ones' },
+				{ name: 'fail-on-broken-links', description: 'Same as --check-links, but exits with a non-zero code if there are broken links' },
+				{
+					name: 'host-files',
+					type: 'string',
+					multiple: true,
+					choices: ['redirects', 'headers', 'nginx'],
+					valueName: 'files',
+					description: 'Configuration files for static hosts to write ("redirects", "headers" and/or "nginx", comma-separated or repeated)',
+				},
+				basePathOption,
+				{ name: 'watch', short: 'w', description: 'Keeps running after building, and updates the outputs affected by changes to static files and route modules' },
+				{ name: 'report', type: 'string', valueName: 'file', description: 'Writes a JSON report with the render time and output size of every page to a file' },
+				{ name: 'continue-on-error', description: 'Finishes the build and writes all successful pages when routes fail to render (still exits with a non-zero code)' },
+				{ name: 'compress', description: 'Writes gzip and brotli variants of text files next to them' },
+				{ name: 'compress-threshold', type: 'int', valueName: 'bytes', default: defaultCompressionThreshold, description: 'The minimum size of files to compress' },
+			],
+			run: async ({ options }) => {
+				if (options['base-path'] !== undefined) {
+					this.setBasePath(options['base-path'] as string)
+				}
+
+				const outDir = options.out as string
+				const clearOutDir = options['clear-out'] as boolean
+				const failOnBrokenLinks = options['fail-on-broken-links'] as boolean
+
+				const buildOptions: BuildOptions = {
+					concurrency: options.concurrency as number,
+					incremental: options.incremental as boolean,
+					prune: options.prune as boolean,
+					checkLinks: failOnBrokenLinks || options['check-links'] as boolean,
+					hostFiles: options['host-files'] as BuildOptions['hostFiles'],
+					reportFile: options.report as string | undefined,
+					continueOnError: options['continue-on-error'] as boolean,
+					compress: options.compress as boolean && { threshold: options['compress-threshold'] as number },
+				}
+
+				if (options.watch) {
+					await this.watchBuild(outDir, clearOutDir, buildOptions)
+					return
+				}
+
+				let result: BuildResult
+				try {
+					result = await this.build(outDir, clearOutDir, buildOptions)
+				} catch (err) {
+					// Render failures were already printed
+					if (err instanceof AggregateError) {
+						process.exit(1)
+					}
+					throw err
+				}
+
+				const { brokenLinks, failures } = result
+				process.exit(failures.length > 0 || (failOnBrokenLinks && brokenLinks.length > 0) ? 1 : 0)
+			},
+		})
+
+		this.addCommand({
+			name: 'serve',
+			description: 'Starts a local development webserver for the site',
+			options: [
+				{ name: 'host', type: 'string', valueName: 'host', default: '127.0.0.1', description: 'The hostname to run on' },
+				{ name: 'port', short: 'p', type: 'int', valueName: 'port', default: 3000, description: 'The port to run on' },
+				{ name: 'live-reload', default: true, description: 'Whether to reload pages in the browser when files change' },
+				basePathOption,
+			],
+			run: ({ options }) => {
+				if (options['base-path'] !== undefined) {
+					this.setBasePath(options['base-path'] as string)
+				}
+
+				console.clear()
+				console.warn('Warning: This is not a production webserver, it is meant for debugging only.')
+				console.warn('Warning: For a production deployment, use the "build" command and place the built files in a directory accessible to your webserver')
+				console.warn('Note: You can enable hot code reloading by using Bun\'s "--hot" option.')
+				this.serve(options.port as number, options.host as string, false, options['live-reload'] as boolean)
+			},
+		})
+
+		this.addCommand({
+			name: 'routes',
+			description: 'Lists all routes and their output files, static mappings, and conflicts between them',
+			options: [
+				{ name: 'json', description: 'Prints the list as JSON' },
+				basePathOption,
+			],
+			run: async ({ options }) => {
+				if (options['base-path'] !== undefined) {
+					this.setBasePath(options['base-path'] as string)
+				}
+
+				const info = await this.inspect()
+				console.log(options.json ? JSON.stringify(info, null, '\t') : this.formatSiteInfo(info))
+			},
+		})
+
+		this.addCommand({
+			name: 'help',
+			description: 'Prints this message, or the help text of a command',
+			usage: '[command]',
+			run: ({ args }) => {
+				const [commandName] = args
+				if (commandName !== undefined && !this.commands.has(commandName)) {
+					console.error(`Unknown command "${commandName}"`)
+					process.exit(1)
+				}
+
+				console.log(this.getHelpString(undefined, commandName))
+			},
+		})
+	}
+
+	/**
+	 * Formats a command's usage, description and options for the help text
+	 * @param command The {@link CliCommand}
+	 * @returns The formatted command, indented with tabs
+	 */
+	private formatCommandHelp(command: CliCommand): string {
+		const usage = command.usage === undefined ? command.name : `${command.name} ${command.usage}`
+		let str = `\t${usage} - ${command.description}\n`
+
+		for (const option of command.options ?? []) {
+			let description = option.description
+			if (option.default !== undefined && option.default !== false) {
+				description += ` (defaults to ${typeof option.default === 'string' ? `"${option.default}"` : option.default})`
+			}
+
+			str += `\t\t${formatCliOptionUsage(option)} - ${description}\n`
 		}
+
+		return str
 	}
 
 	/**
-	 * Returns the help string for the CLI
+	 * Returns the help string for the CLI, which is generated from the registered {@link commands}
 	 * @param scriptName The name of the CLI script name or command (defaults to the entrypoint script name)
+	 * @param commandName The name of the command to only return the help string of, or undefined to return the help string of all commands
 	 * @returns The help string
 	 */
-	public getHelpString(scriptName: string = basename(process.argv[1])): string {
+	public getHelpString(scriptName: string = basename(process.argv[1]), commandName?: string): string {
+		const command = commandName === undefined ? undefined : this.commands.get(commandName)
+		if (command !== undefined) {
+			return `Usage: ${scriptName} ${command.name}${command.usage === undefined ? '' : ' ' + command.usage} [options]\n\n${this.formatCommandHelp(command).trimEnd()}`
+		}
+
+		// The help command is always listed last
+		const commands = [...this.commands.values()].filter(command => command.name !== 'help')
+		const helpCommand = this.commands.get('help')
+		if (helpCommand !== undefined) {
+			commands.push(helpCommand)
+		}
+
 		return `
 Usage: ${scriptName} <command> [options]
 
-Options:
-\tbuild - Builds the site into a directory
-\t\t--out=<dir> - The directory to build the site into (defaults to "dist")
-\t\t--clear-out=<true|false> - Whether to delete the contents of the output directory before building (defaults to true)
+Commands:
+${commands.map(command => this.formatCommandHelp(command)).join('\n')}
+Every command also accepts ${formatCliOptionUsage(helpOption)} to print its help text.
+`.trim()
+	}
+
+	/**
+	 * Parses the options of a command, validating them against the options it accepts
+	 * @param command The {@link CliCommand}
+	 * @param parsedArgs The parsed command line arguments
+	 * @returns The option values by name
+	 */
+	private parseCommandOptions(command: CliCommand, parsedArgs: ParsedArgs): Record<string, CliOptionValue> {
+		const options = [helpOption, ...(command.options ?? [])]
 
-\tserve - Starts a local development webserver for the site
-\t\t--host=<host> - The hostname to run on (defaults to "127.0.0.1")
-\t\t--port=<port> - The port to run on (defaults to 3000)
+		for (const name of parsedArgs.options.keys()) {
+			if (options.some(option => option.name === name)) {
+				continue
+			}
 
-\thelp - Prints this message
-`.trim()
+			const usage = name.length === 1 ? `-${name}` : `--${name}`
+			const suggestion = suggestName(name, options.map(option => option.name))
+			throw new Error(`Unknown option ${usage} for command "${command.name}"${suggestion === null ? '' : `, did you mean --${suggestion}?`}`)
+		}
+
+		const values: Record<string, CliOptionValue> = {}
+		for (const option of options) {
+			values[option.name] = parseCliOptionValue(option, parsedArgs.getOptionValues(option.name))
+		}
+
+		return values
 	}
 
 	/**
-	 * Runs the site generator CLI
+	 * Runs the site generator CLI.
+	 * The first normal argument is the name of the command to run, and the remaining arguments are parsed according to the command's options.
+	 * Invalid options print an error along with the command's help text, and exit with a non-zero code.
+	 *
 	 * @param parsedArgs The parsed command line arguments (defaults to parsing process.argv)
 	 */
 	public async cli(parsedArgs = ParsedArgs.parse(process.argv)): Promise<void> {
-		if (parsedArgs.args.includes('build')) {
-			const outDir = parsedArgs.getOptionOr('out', 'dist')
-			const clearOutDir = parsedArgs.isOptionTrue('clear-out', true)
-
-			await this.build(outDir, clearOutDir)
-			process.exit(0)
-		} else if (parsedArgs.args.includes('serve')) {
-			const host = parsedArgs.getOptionOr('host', '127.0.0.1')
-			const port = parsedArgs.getOptionIntOr('port', 3000)
-
-			console.clear()
-			console.warn('Warning: This is not a production webserver, it is meant for debugging only.')
-			console.warn('Warning: For a production deployment, use the "build" command and place the built files in a directory accessible to your webserver')
-			console.warn('Note: You can enable hot code reloading by using Bun\'s "--hot" option.')
-			await this.serve(port, host)
-		} else {
+		const [commandName] = parsedArgs.args
+		const command = commandName === undefined ? undefined : this.commands.get(commandName)
+
+		if (command === undefined) {
+			if (commandName !== undefined) {
+				const suggestion = suggestName(commandName, [...this.commands.keys()])
+				console.error(`Unknown command "${commandName}"${suggestion === null ? '' : `, did you mean "${suggestion}"?`}\n`)
+			}
 			console.error(this.getHelpString())
 			process.exit(1)
 		}
+
+		// Parse again now that the command's short options and options that take values are known
+		const options = command.options ?? []
+		const commandArgs = ParsedArgs.parse(parsedArgs.raw, false, {
+			aliases: Object.fromEntries([helpOption, ...options].flatMap(option => option.short === undefined ? [] : [[option.short, option.name]])),
+			valueOptions: options.filter(option => (option.type ?? 'boolean') !== 'boolean').map(option => option.name),
+		})
+
+		let values: Record<string, CliOptionValue>
+		try {
+			values = this.parseCommandOptions(command, commandArgs)
+		} catch (err) {
+			console.error(`Error: ${(err as Error).message}\n`)
+			console.error(this.getHelpString(undefined, command.name))
+			process.exit(1)
+		}
+
+		if (values.help) {
+			console.log(this.getHelpString(undefined, command.name))
+			return
+		}
+
+		await command.run({
+			options: values,
+			args: commandArgs.args.slice(commandArgs.args.indexOf(command.name) + 1),
+			parsedArgs: commandArgs,
+			ssg: this,
+		})
 	}
 }
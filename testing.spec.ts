@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test'
+import { createElement } from 'react'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join as joinPaths } from 'path'
+import { SiteGenerator } from './index.tsx'
+import { matchSnapshots, normalizeHtml, renderRoute } from './testing.ts'
+
+let snapshotDir: string
+
+beforeEach(async () => {
+	snapshotDir = await mkdtemp(joinPaths(tmpdir(), 'ssg-snapshots-'))
+})
+
+afterEach(async () => {
+	await rm(snapshotDir, { recursive: true, force: true })
+})
+
+/**
+ * Creates a site with a home page that greets the specified name and a blog post route
+ * @param name The name to greet
+ * @returns The site
+ */
+function createSite(name: string): SiteGenerator {
+	return new SiteGenerator()
+		.setRoute('/', () => createElement('html', null,
+			createElement('head', null, createElement('title', null, 'Home')),
+			createElement('body', null, createElement('p', null, 'Hello ', name)),
+		))
+		.setRoute('/blog/:slug/', ctx => createElement('p', null, 'Post ', ctx.params.slug), () => [{ slug: 'a' }, { slug: 'b' }])
+}
+
+test('renderRoute renders a single page in memory', async () => {
+	const page = await renderRoute(createSite('world'), '/blog/b/')
+
+	expect(page.route).toBe('/blog/:slug/')
+	expect(page.path).toBe('/blog/b/')
+	expect(page.outFile).toBe('/blog/b/index.html')
+	expect(page.contentType).toStartWith('text/html')
+	expect(page.body).toContain('b</p>')
+})
+
+test('normalizeHtml removes React text separators and keeps raw text', () => {
+	const html = '<div><p>Hello <!-- -->world</p><script>if (a<b) {}</script><pre>  a\n  b</pre></div>'
+
+	expect(normalizeHtml(html)).toBe([
+		'<div>',
+		'\t<p>',
+		'\t\tHello world',
+		'\t</p>',
+		'\t<script>',
+		'if (a<b) {}',
+		'\t</script>',
+		'\t<pre>',
+		'  a\n  b',
+		'\t</pre>',
+		'</div>',
+		'',
+	].join('\n'))
+})
+
+test('matchSnapshots throws a diff when a page changes', async () => {
+	await matchSnapshots(createSite('world'), { dir: snapshotDir, update: true })
+
+	const result = await matchSnapshots(createSite('world'), { dir: snapshotDir, update: false })
+	expect(result.matched).toEqual(['/', '/blog/a/', '/blog/b/'])
+
+	const err = await matchSnapshots(createSite('there'), { dir: snapshotDir, update: false }).catch(err => err as Error)
+	expect(err).toBeInstanceOf(Error)
+	expect((err as Error).message).toContain('1 page snapshot failed')
+	expect((err as Error).message).toContain('- \t\t\tHello world')
+	expect((err as Error).message).toContain('+ \t\t\tHello there')
+})
+
+test('matchSnapshots reports and deletes obsolete snapshots when updating', async () => {
+	await matchSnapshots(createSite('world'), { dir: snapshotDir, update: true })
+	await Bun.write(joinPaths(snapshotDir, 'old', 'index.html.snap'), 'old')
+
+	const result = await matchSnapshots(createSite('world'), { dir: snapshotDir, update: true })
+	expect(result.obsolete).toEqual(['/old/index.html.snap'])
+	expect(await Bun.file(joinPaths(snapshotDir, 'old', 'index.html.snap')).exists()).toBe(false)
+})
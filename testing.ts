@@ -0,0 +1,314 @@
+/**
+ * Testing utilities for sites built with simple-jsx-ssg.
+ * Routes are rendered in memory the same way as when building, and their output can be compared against stored snapshots, for example in `bun test`.
+ *
+ * @module
+ */
+
+import { join as joinPaths } from 'path'
+import { exists, mkdir, rm } from 'fs/promises'
+import { dirname } from 'path/posix'
+import { createHash } from 'crypto'
+import { listFilesRecursive, type RenderedPage, type SiteGenerator } from './index.tsx'
+
+/**
+ * Elements whose contents are kept as-is by {@link normalizeHtml}
+ */
+const rawTextElements = ['script', 'style', 'pre', 'textarea']
+
+/**
+ * Void elements, which never have a closing tag
+ */
+const voidElements = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']
+
+/**
+ * Renders a single page in memory, the same way it is rendered by {@link SiteGenerator.build}
+ * @param ssg The {@link SiteGenerator}
+ * @param path The concrete path of the page, such as `/blog/hello-world/`, or a route that only renders one page
+ * @returns The {@link RenderedPage}
+ */
+export async function renderRoute(ssg: SiteGenerator, path: string): Promise<RenderedPage> {
+	const pages = await ssg.renderPages([path])
+	const page = pages.find(page => page.path === path) ?? (pages.length === 1 ? pages[0] : undefined)
+	if (page === undefined) {
+		throw new Error(`Route ${path} renders ${pages.length} pages, specify one of their paths instead`)
+	}
+
+	return page
+}
+
+/**
+ * Renders all pages of a site in memory, the same way they are rendered by {@link SiteGenerator.build}
+ * @param ssg The {@link SiteGenerator}
+ * @returns The {@link RenderedPage}s, keyed by path
+ */
+export async function renderSite(ssg: SiteGenerator): Promise<Map<string, RenderedPage>> {
+	const pages = new Map<string, RenderedPage>()
+	for (const page of await ssg.renderPages()) {
+		pages.set(page.path, page)
+	}
+
+	return pages
+}
+
+/**
+ * Normalizes HTML so that it can be compared and diffed line by line.
+ * Every tag and text node is put on its own line and indented by its nesting depth, and whitespace in text is collapsed.
+ * The empty comments React inserts between adjacent text nodes are removed.
+ * The contents of `<script>`, `<style>`, `<pre>` and `<textarea>` elements are kept as-is.
+ *
+ * @param html The HTML
+ * @returns The normalized HTML
+ */
+export function normalizeHtml(html: string): string {
+	const lines: string[] = []
+	let depth = 0
+	const indent = () => '\t'.repeat(Math.max(depth, 0))
+
+	const pushText = (text: string) => {
+		text = text.replace(/\s+/g, ' ').trim()
+		if (text !== '') {
+			lines.push(indent() + text)
+		}
+	}
+
+	const source = html.replaceAll('<!-- -->', '')
+	const tagPattern = /<!--[\s\S]*?-->|<[^>]+>/g
+	let index = 0
+	for (let match = tagPattern.exec(source); match !== null; match = tagPattern.exec(source)) {
+		pushText(source.substring(index, match.index))
+		const tag = match[0]
+		index = tagPattern.lastIndex
+
+		if (tag.startsWith('</')) {
+			depth--
+			lines.push(indent() + tag)
+			continue
+		}
+
+		lines.push(indent() + tag.replace(/\s+/g, ' '))
+
+		const name = /^<([a-zA-Z][^\s/>]*)/.exec(tag)?.[1].toLowerCase()
+		if (name === undefined || tag.endsWith('/>') || voidElements.includes(name)) {
+			continue
+		}
+
+		if (rawTextElements.includes(name)) {
+			// Raw text may contain anything that looks like a tag, so it extends up to the closing tag
+			const end = source.toLowerCase().indexOf(`</${name}`, index)
+			const raw = source.substring(index, end === -1 ? source.length : end)
+			if (raw.trim() !== '') {
+				lines.push(raw)
+			}
+			index = tagPattern.lastIndex = index + raw.length
+		}
+
+		depth++
+	}
+	pushText(source.substring(index))
+
+	return lines.join('\n') + '\n'
+}
+
+/**
+ * Creates a readable line diff between two texts, with three lines of context around each change
+ * @param expected The expected text
+ * @param actual The actual text
+ * @returns The diff, with removed lines prefixed with `-` and added lines prefixed with `+`
+ */
+export function diffLines(expected: string, actual: string): string {
+	const a = expected.split('\n')
+	const b = actual.split('\n')
+
+	// Lengths of the longest common subsequences of the remaining lines
+	const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+		}
+	}
+
+	const ops: { type: ' ' | '-' | '+', line: string, lineNumber: number }[] = []
+	let i = 0
+	let j = 0
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			ops.push({ type: ' ', line: a[i], lineNumber: j + 1 })
+			i++
+			j++
+		} else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+			ops.push({ type: '-', line: a[i], lineNumber: j + 1 })
+			i++
+		} else {
+			ops.push({ type: '+', line: b[j], lineNumber: j + 1 })
+			j++
+		}
+	}
+
+	// Changes are grouped into hunks when their context lines would touch or overlap
+	const context = 3
+	const out: string[] = []
+	let k = 0
+	while (k < ops.length) {
+		if (ops[k].type === ' ') {
+			k++
+			continue
+		}
+
+		const start = Math.max(k - context, 0)
+		let end = k
+		for (let m = k + 1; m < ops.length && m <= end + context * 2; m++) {
+			if (ops[m].type !== ' ') {
+				end = m
+			}
+		}
+		end = Math.min(end + context, ops.length - 1)
+
+		out.push(`@@ line ${ops[start].lineNumber} @@`)
+		for (let m = start; m <= end; m++) {
+			out.push(`${ops[m].type} ${ops[m].line}`)
+		}
+		k = end + 1
+	}
+
+	return out.join('\n')
+}
+
+/**
+ * Options for {@link matchSnapshots}
+ */
+export type SnapshotOptions = {
+	/**
+	 * The directory to store snapshots in (defaults to `__snapshots__/pages` in the working directory).
+	 * Each page's snapshot is stored at its output file path with `.snap` appended.
+	 */
+	dir?: string
+
+	/**
+	 * The concrete paths or routes of the pages to compare, or undefined to compare all pages (defaults to undefined)
+	 */
+	paths?: string[]
+
+	/**
+	 * Whether to overwrite snapshots that don't match and delete snapshots of pages that no longer exist, instead of failing (defaults to true if the `UPDATE_SNAPSHOTS` environment variable is set)
+	 */
+	update?: boolean
+
+	/**
+	 * A function that is applied to HTML after {@link normalizeHtml}, for example to replace values that change on every render such as dates
+	 * @param html The normalized HTML
+	 * @param page The {@link RenderedPage}
+	 * @returns The HTML to store
+	 */
+	normalize?(html: string, page: RenderedPage): string
+}
+
+/**
+ * The result of {@link matchSnapshots}
+ */
+export type SnapshotResult = {
+	/**
+	 * The paths of the pages whose snapshots matched
+	 */
+	matched: string[]
+
+	/**
+	 * The paths of the pages whose snapshots were written, either because they did not exist or because they were updated
+	 */
+	written: string[]
+
+	/**
+	 * The snapshot files of pages that no longer exist, which were deleted if updating
+	 */
+	obsolete: string[]
+}
+
+/**
+ * Converts a rendered page into the text stored in its snapshot
+ * @param page The {@link RenderedPage}
+ * @param normalize The additional normalization function, if any
+ * @returns The snapshot text
+ */
+function toSnapshot(page: RenderedPage, normalize: SnapshotOptions['normalize']): string {
+	if (typeof page.body !== 'string') {
+		return `binary ${page.contentType}, sha256 ${createHash('sha256').update(page.body).digest('hex')}\n`
+	}
+	if (!page.contentType.startsWith('text/html')) {
+		return page.body
+	}
+
+	const html = normalizeHtml(page.body)
+	return normalize === undefined ? html : normalize(html, page)
+}
+
+/**
+ * Renders pages in memory and compares them against stored snapshots of their normalized output.
+ * Missing snapshots are written, unless running in CI (when the `CI` environment variable is set), where they are treated as failures.
+ *
+ * If any snapshots don't match, an error with a readable diff of each page is thrown, which makes the calling test fail.
+ * To accept the changes, run the tests again with the `UPDATE_SNAPSHOTS` environment variable set (or the {@link SnapshotOptions.update} option enabled).
+ *
+ * @param ssg The {@link SiteGenerator}
+ * @param options The {@link SnapshotOptions}
+ * @returns The {@link SnapshotResult}
+ */
+export async function matchSnapshots(ssg: SiteGenerator, options: SnapshotOptions = {}): Promise<SnapshotResult> {
+	const dir = options.dir ?? joinPaths(process.cwd(), '__snapshots__', 'pages')
+	const update = options.update ?? (process.env.UPDATE_SNAPSHOTS !== undefined && process.env.UPDATE_SNAPSHOTS !== '')
+	const ci = process.env.CI !== undefined && process.env.CI !== '' && process.env.CI !== 'false'
+
+	const result: SnapshotResult = { matched: [], written: [], obsolete: [] }
+	const failures: string[] = []
+
+	const pages = await ssg.renderPages(options.paths)
+	for (const page of pages) {
+		const snapshotFile = joinPaths(dir, page.outFile + '.snap')
+		const actual = toSnapshot(page, options.normalize)
+
+		const file = Bun.file(snapshotFile)
+		if (!await file.exists()) {
+			if (ci && !update) {
+				failures.push(`${page.path}: Snapshot ${snapshotFile} does not exist (snapshots are not written in CI unless UPDATE_SNAPSHOTS is set)`)
+				continue
+			}
+		} else {
+			const expected = await file.text()
+			if (expected === actual) {
+				result.matched.push(page.path)
+				continue
+			}
+			if (!update) {
+				failures.push(`${page.path} (${page.outFile}):\n${diffLines(expected, actual)}`)
+				continue
+			}
+		}
+
+		await mkdir(dirname(snapshotFile), { recursive: true })
+		await Bun.write(snapshotFile, actual)
+		result.written.push(page.path)
+	}
+
+	// Only a full comparison knows which snapshots no longer belong to any page
+	if (options.paths === undefined) {
+		const outFiles = new Set(pages.map(page => page.outFile + '.snap'))
+		const snapshots = await exists(dir) ? await listFilesRecursive(dir) : []
+		for (const snapshot of snapshots.map(file => '/' + file).filter(file => file.endsWith('.snap'))) {
+			if (outFiles.has(snapshot)) {
+				continue
+			}
+
+			result.obsolete.push(snapshot)
+			if (update) {
+				await rm(joinPaths(dir, snapshot))
+			}
+		}
+	}
+
+	if (failures.length > 0) {
+		throw new Error(
+			`${failures.length} page snapshot${failures.length === 1 ? '' : 's'} failed, run with UPDATE_SNAPSHOTS=1 to update them\n\n${failures.join('\n\n')}`,
+		)
+	}
+
+	return result
+}